@@ -29,7 +29,15 @@ export const options = { headerShown: false };
 type Filter = 'all' | 'avoid' | 'benefit';
 type ApiFilter = 'all' | 'avoid' | 'beneficial';
 
-type SourceRef = { label: string; url: string | null };
+type SourceRef = {
+  label: string;
+  url: string | null;
+  publisher?: string | null;
+  year?: number | null;
+  accessedAt?: string | null;
+  snippet?: string | null;
+  sourceType?: string | null;
+};
 type CompatibilityItem = {
   food: string;
   reason: string;
@@ -37,13 +45,33 @@ type CompatibilityItem = {
   sources?: SourceRef[];
 };
 
+type ConditionItem = {
+  disease: string;
+  diseaseType: string;
+  reason: string;
+  severity: number;
+  sources?: SourceRef[];
+};
+
 type CompatibilityResponse = {
   ingredient: string;
   category: string;
   avoid?: CompatibilityItem[];
   beneficial?: CompatibilityItem[];
+  conditions?: { avoid?: ConditionItem[]; beneficial?: ConditionItem[] };
+};
+
+// "Did you mean…" entries sent back with a 404
+type Suggestion = {
+  name: string;
+  type: 'ingredient' | 'disease';
+  matchedAlias: string | null;
+  score: number;
 };
 
+// Body of a failed request
+type ErrorBody = { message?: string; suggestions?: Suggestion[] };
+
 // helper: apply styles only on web
 const webOnly = (s: any) => (Platform.OS === 'web' ? s : null);
 
@@ -58,6 +86,7 @@ export default function PairScreen() {
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<CompatibilityResponse | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
 
   // segmented active state (pairing or wellness)
   const [activeSeg, setActiveSeg] = useState<'pairing' | 'wellness'>('pairing');
@@ -102,14 +131,16 @@ export default function PairScreen() {
   const apiFilter = (f: Filter | null): ApiFilter =>
     f === 'benefit' ? 'beneficial' : (f ?? 'all');
 
-  const onSearch = async () => {
-    const q = query.trim();
+  // `term` lets recents and suggestion chips search without waiting for setQuery
+  const onSearch = async (term?: string) => {
+    const q = (term ?? query).trim();
     if (!q) return;
 
     await addRecent(q);
 
     setLoading(true);
     setErrorMsg(null);
+    setSuggestions([]);
     setResult(null);
 
     const controller = new AbortController();
@@ -124,9 +155,12 @@ export default function PairScreen() {
       });
 
       if (!res.ok) {
-        let msg: string | undefined;
-        try { msg = (await res.json())?.message; } catch {}
-        throw new Error(msg || `Request failed (${res.status})`);
+        let body: ErrorBody | undefined;
+        try { body = await res.json(); } catch {}
+        if (body?.suggestions) {
+          setSuggestions(body.suggestions.filter(s => s.type === 'ingredient'));
+        }
+        throw new Error(body?.message || `Request failed (${res.status})`);
       }
 
       const data: CompatibilityResponse = await res.json();
@@ -147,6 +181,7 @@ export default function PairScreen() {
     setQuery('');
     setInputFocused(false);
     setErrorMsg(null);
+    setSuggestions([]);
   };
 
   const canSearch = query.trim().length > 0;
@@ -295,7 +330,7 @@ export default function PairScreen() {
                         onChangeText={setQuery}
                         style={styles.inputUnderline}
                         returnKeyType="search"
-                        onSubmitEditing={onSearch}
+                        onSubmitEditing={() => onSearch()}
                         onFocus={() => setInputFocused(true)}
                         onBlur={() => setInputFocused(false)}
                         inputMode={Platform.select({ web: 'text', default: undefined })}
@@ -322,7 +357,7 @@ export default function PairScreen() {
                           <Pressable
                             key={`${item}-${i}`}
                             style={({ pressed }) => [styles.recentPillRow, pressed && { opacity: 0.95 }]}
-                            onPress={() => { setQuery(item); onSearch(); }}
+                            onPress={() => { setQuery(item); onSearch(item); }}
                             {...webOnly({ role: 'button' })}
                           >
                             <View style={{ flexDirection: 'row', alignItems: 'center' }}>
@@ -337,6 +372,10 @@ export default function PairScreen() {
                   </View>
                 )}
                 {!!errorMsg && <Text style={{ color: '#DC2626', marginTop: 10 }}>{errorMsg}</Text>}
+                <DidYouMean
+                  suggestions={suggestions}
+                  onPick={name => { setQuery(name); onSearch(name); }}
+                />
               </View>
             )}
           </ScrollView>
@@ -350,7 +389,7 @@ export default function PairScreen() {
 
           <Pressable
             style={[styles.searchBtn, canSearch ? styles.searchBtnOn : styles.searchBtnOff]}
-            onPress={onSearch}
+            onPress={() => onSearch()}
             disabled={!canSearch}
             {...webOnly({ role: 'button' })}
           >
@@ -399,6 +438,23 @@ function rowsFromResult(res: CompatibilityResponse, filter: Filter | null): Row[
   return [...goods, ...bads];
 }
 
+// conditions this ingredient helps or should be avoided with, shaped as rows
+function conditionRowsFromResult(res: CompatibilityResponse, filter: Filter | null): Row[] {
+  const toRow = (kind: 'good' | 'bad') => (c: ConditionItem): Row => ({
+    food: c.disease,
+    reason: c.reason,
+    severity: c.severity,
+    sources: c.sources,
+    _kind: kind,
+  });
+  const goods = (res.conditions?.beneficial ?? []).map(toRow('good'));
+  const bads = (res.conditions?.avoid ?? []).map(toRow('bad'));
+
+  if (filter === 'benefit') return goods;
+  if (filter === 'avoid')   return bads;
+  return [...goods, ...bads];
+}
+
 function ResultView({
   result,
   filter,
@@ -413,6 +469,7 @@ function ResultView({
   onBack: () => void;
 }) {
   const rows = rowsFromResult(result, filter);
+  const conditionRows = conditionRowsFromResult(result, filter);
 
   const tone = getHeaderTone(result, filter);
   const showBadge = tone !== 'neutral';
@@ -516,6 +573,14 @@ function ResultView({
 
       {/* Accordion list */}
       <ResultAccordion rows={rows} />
+
+      {/* Reverse lookup: conditions */}
+      {conditionRows.length > 0 && (
+        <>
+          <Text style={styles.sectionHeading}>For health conditions</Text>
+          <ResultAccordion rows={conditionRows} />
+        </>
+      )}
     </View>
   );
 }
@@ -575,6 +640,7 @@ function ResultAccordion({ rows }: { rows: Row[] }) {
                         <Text style={[styles.sourceLine, !s.url && { color: '#6B7280' }]}>
                           • {s.label}{s.url ? '  ↗' : ''}
                         </Text>
+                        <SourceDetails source={s} />
                       </Pressable>
                     ))}
                   </View>
@@ -588,6 +654,47 @@ function ResultAccordion({ rows }: { rows: Row[] }) {
   );
 }
 
+/** Publisher · year · type and the quoted evidence under a source link */
+function SourceDetails({ source }: { source: SourceRef }) {
+  const meta = [source.publisher, source.year, source.sourceType].filter(Boolean).join(' · ');
+  if (!meta && !source.snippet) return null;
+  return (
+    <View style={{ paddingLeft: 12 }}>
+      {!!meta && <Text style={styles.sourceMeta}>{meta}</Text>}
+      {!!source.snippet && <Text style={styles.sourceSnippet}>“{source.snippet}”</Text>}
+    </View>
+  );
+}
+
+/** Tappable "Did you mean…" chips shown under a not-found error */
+function DidYouMean({
+  suggestions,
+  onPick,
+}: {
+  suggestions: Suggestion[];
+  onPick: (name: string) => void;
+}) {
+  if (suggestions.length === 0) return null;
+  return (
+    <View style={{ marginTop: 14 }}>
+      <Text style={styles.sectionLabel}>Did you mean…</Text>
+      <View style={[styles.chipsRow, { marginTop: 8 }]}>
+        {suggestions.map(s => (
+          <Pressable
+            key={`${s.type}-${s.name}`}
+            onPress={() => onPick(s.name)}
+            style={({ pressed }) => [styles.chip, styles.suggestionChip, pressed && { opacity: 0.9 }]}
+            accessibilityLabel={`Search for ${s.name}`}
+            {...webOnly({ role: 'button' })}
+          >
+            <Text style={[styles.chipText, { color: '#0054D1' }]}>{s.name}</Text>
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+}
+
 /** Neutral-by-default chip; colors only when selected */
 function FilterChip({
   emoji,
@@ -669,6 +776,7 @@ function FoodRow({ item, tone }: { item: CompatibilityItem; tone: 'good' | 'bad'
               <Text style={[styles.sourceLine, !s.url && { color: '#6B7280' }]}>
                 • {s.label}{s.url ? '  ↗' : ''}
               </Text>
+              <SourceDetails source={s} />
             </Pressable>
           ))}
         </View>
@@ -765,6 +873,7 @@ const styles = StyleSheet.create({
     }),
   },
   chipText: { fontSize: 16 },
+  suggestionChip: { backgroundColor: '#F7FBFF', borderColor: '#0054D1' },
   logoWrap: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -907,4 +1016,6 @@ const styles = StyleSheet.create({
   foodName: { fontSize: 15, fontWeight: '800', color: '#0F172A' },
   foodReason: { fontSize: 14, color: '#374151', marginTop: 6 },
   sourceLine: { fontSize: 13, color: '#2563EB' },
+  sourceMeta: { fontSize: 12, color: '#6B7280' },
+  sourceSnippet: { fontSize: 12, color: '#374151', fontStyle: 'italic', marginTop: 2 },
 });
@@ -30,29 +30,62 @@ type Filter = 'all' | 'avoid' | 'benefit';
 type ApiFilter = 'all' | 'avoid' | 'beneficial';
 type Mode = 'daily' | 'chronic';
 
-type SourceRef = { label: string; url: string | null };
+type SourceRef = {
+  label: string;
+  url: string | null;
+  publisher?: string | null;
+  year?: number | null;
+  accessedAt?: string | null;
+  snippet?: string | null;
+  sourceType?: string | null;
+};
+
+// One disease's contribution to a guide item
+type BreakdownEntry = {
+  disease: string;
+  diseaseType: string;
+  reason: string;
+  severity: number;
+  weight: number;
+  contribution: number;
+  sources?: SourceRef[];
+};
 
 type DiseaseItem = {
   food?: string;
   ingredient?: string;
-  reason: string;
+  score?: number;
+  severity?: number;
   affectedDiseases?: string[];
-  sources?: SourceRef[];
+  breakdown?: BreakdownEntry[];
 };
 
 type DiseaseGuide = {
   diseases: string[];
+  // requested names that matched nothing, each with its own suggestions
+  unknownDiseases?: { name: string; suggestions: Suggestion[] }[];
   avoid?: DiseaseItem[];
   beneficial?: DiseaseItem[];
 };
 
+// "Did you mean…" entries sent back with a 404, or per unknown name in a guide
+type Suggestion = {
+  name: string;
+  type: 'ingredient' | 'disease';
+  matchedAlias: string | null;
+  score: number;
+};
+
+// Body of a failed request
+type ErrorBody = { message?: string; suggestions?: Suggestion[] };
+
 const webOnly = (s: any) => (Platform.OS === 'web' ? s : null);
 
 export default function WellnessScreen() {
   // segmented tabs
   const [activeSeg, setActiveSeg] = useState<'pairing' | 'wellness'>('wellness');
 
-  // demo-only mode (placeholder/prompt copy)
+  // mode drives placeholder/prompt copy and which conditions are listed
   const [mode, setMode] = useState<Mode>();
 
   // filter & search
@@ -66,6 +99,10 @@ export default function WellnessScreen() {
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<DiseaseGuide | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+
+  // diseases matching the selected mode (daily → acute, chronic → chronic)
+  const [modeDiseases, setModeDiseases] = useState<string[]>([]);
 
   // layout to make the white card fill the screen (like Pair)
   const insets = useSafeAreaInsets();
@@ -89,6 +126,28 @@ export default function WellnessScreen() {
     })();
   }, []);
 
+  useEffect(() => {
+    if (!mode) {
+      setModeDiseases([]);
+      return;
+    }
+    let cancelled = false;
+    const type = mode === 'daily' ? 'acute' : 'chronic';
+    (async () => {
+      try {
+        const res = await fetch(`${BASE_URL}/api/diseases?type=${type}`, {
+          headers: { Accept: 'application/json' },
+        });
+        if (!res.ok) return;
+        const data = await res.json();
+        if (!cancelled) setModeDiseases((data.diseases ?? []).map((d: { name: string }) => d.name));
+      } catch {}
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [mode]);
+
   const persistRecents = async (next: string[]) => {
     setRecents(next);
     try {
@@ -128,15 +187,18 @@ export default function WellnessScreen() {
     return list;
   }
 
-  const onSearch = async () => {
-    const q = query.trim();
+  // `picked` is a full disease name (from recents or a suggestion chip); it is
+  // sent as-is because multi-word names would not survive parseDiseases
+  const onSearch = async (picked?: string) => {
+    const q = (picked ?? query).trim();
     if (!q) return;
-    const diseases = parseDiseases(q);
+    const diseases = picked ? [q] : parseDiseases(q);
     if (diseases.length === 0) return;
 
     await addRecent(q);
     setLoading(true);
     setErrorMsg(null);
+    setSuggestions([]);
     setResult(null);
 
     const controller = new AbortController();
@@ -151,11 +213,14 @@ export default function WellnessScreen() {
       });
 
       if (!res.ok) {
-        let msg: string | undefined;
+        let body: ErrorBody | undefined;
         try {
-          msg = (await res.json())?.message;
+          body = await res.json();
         } catch {}
-        throw new Error(msg || `Request failed (${res.status})`);
+        if (body?.suggestions) {
+          setSuggestions(body.suggestions.filter(s => s.type === 'disease'));
+        }
+        throw new Error(body?.message || `Request failed (${res.status})`);
       }
 
       const data: DiseaseGuide = await res.json();
@@ -177,6 +242,7 @@ export default function WellnessScreen() {
     setQuery('');
     setInputFocused(false);
     setErrorMsg(null);
+    setSuggestions([]);
     setResult(null);
   };
   
@@ -278,12 +344,13 @@ export default function WellnessScreen() {
                 query={query}
                 cardMinHeight={cardMinHeight}
                 onBack={() => { setResult(null); ClearAll(); }}
+                onPick={name => { setQuery(name); onSearch(name); }}
               />
             ) : (
               <View style={[styles.card, { minHeight: cardMinHeight, paddingTop: 60 }]}>
                 <Text style={styles.kicker}>I want help with</Text>
 
-                {/* Demo-only mode (placeholder/prompt copy only) */}
+                {/* Mode: Daily Wellness (acute) or Chronic care */}
                 <View style={[styles.modeRow, { marginBottom: 0 }]}>
                   <ModeChip
                     emoji="️️🌤️"
@@ -299,6 +366,22 @@ export default function WellnessScreen() {
                   />
                 </View>
 
+                {/* Conditions for the selected mode — tap to search */}
+                {modeDiseases.length > 0 && (
+                  <View style={[styles.modeRow, { marginTop: 10 }]}>
+                    {modeDiseases.map(name => (
+                      <Pressable
+                        key={name}
+                        onPress={() => { setQuery(name); onSearch(name); }}
+                        style={({ pressed }) => [styles.chip, styles.diseaseChip, pressed && { opacity: 0.9 }]}
+                        {...webOnly({ role: 'button' })}
+                      >
+                        <Text style={[styles.chipText, { color: '#374151' }]}>{name}</Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                )}
+
                 <Text style={[styles.kicker, { marginTop: 14 }]}>Filter</Text>
 
                 <View style={[styles.modeRow, { marginBottom: 10 }]}>
@@ -356,7 +439,7 @@ export default function WellnessScreen() {
                       onChangeText={setQuery}
                       style={styles.roundInput}
                       returnKeyType="search"
-                      onSubmitEditing={onSearch}
+                      onSubmitEditing={() => onSearch()}
                       onFocus={() => setInputFocused(true)}
                       onBlur={() => setInputFocused(false)}
                       inputMode={Platform.select({ web: 'text', default: undefined })}
@@ -401,6 +484,10 @@ export default function WellnessScreen() {
                 )}
 
                 {!!errorMsg && <Text style={{ color: '#DC2626', marginTop: 10 }}>{errorMsg}</Text>}
+                <DidYouMean
+                  suggestions={suggestions}
+                  onPick={name => { setQuery(name); onSearch(name); }}
+                />
               </View>
             )}
           </ScrollView>
@@ -414,7 +501,7 @@ export default function WellnessScreen() {
 
           <Pressable
             style={[styles.searchBtn, canSearch ? styles.searchBtnOn : styles.searchBtnOff]}
-            onPress={onSearch}
+            onPress={() => onSearch()}
             disabled={!canSearch || loading}
             {...webOnly({ role: 'button' })}
           >
@@ -451,13 +538,7 @@ function rowsFromResult(res: DiseaseGuide, filter: Filter | null): Row[] {
     _name: nameOf(x),
   }));
 
-  // alphabetical only, case-insensitive
-  const byName = (a: DiseaseItem, b: DiseaseItem) =>
-    nameOf(a).localeCompare(nameOf(b), undefined, { sensitivity: 'base' });
-
-  goods.sort(byName);
-  bads.sort(byName);
-
+  // keep the server order: highest combined score across diseases first
   if (filter === 'benefit') return goods;
   if (filter === 'avoid')   return bads;
   return [...goods, ...bads];
@@ -476,12 +557,14 @@ function ResultView({
   query,
   cardMinHeight,
   onBack,
+  onPick,
 }: {
   result: DiseaseGuide;
   filter: Filter | null;
   query: string;
   cardMinHeight: number;
   onBack: () => void;
+  onPick: (name: string) => void;
 }) {
   const rows = rowsFromResult(result, filter);
   const tone = getHeaderTone(result, filter);
@@ -506,6 +589,14 @@ function ResultView({
         </Text>
       </Text>
 
+      {/* Names that matched nothing, with their own "Did you mean…" chips */}
+      {result.unknownDiseases?.map(unknown => (
+        <View key={unknown.name} style={{ marginBottom: 10 }}>
+          <Text style={{ color: '#DC2626' }}>No match for “{unknown.name}”</Text>
+          <DidYouMean suggestions={unknown.suggestions} onPick={onPick} />
+        </View>
+      ))}
+
       {/* Badges */}
       {(filter === 'all' || filter == null) ? (
         <View style={{ flexDirection: 'row', gap: 8, marginBottom: 10 }}>
@@ -591,40 +682,39 @@ function ResultAccordion({ rows }: { rows: Row[] }) {
 
             {isOpen && (
               <View style={{ paddingHorizontal: 12, paddingBottom: 14 }}>
-                <Text style={{ fontSize: 14, color: '#374151' }}>{r.reason}</Text>
-
-                {!!(r.affectedDiseases?.length) && (
-                  <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginTop: 8 }}>
-                    {r.affectedDiseases!.map((d, i) => (
-                      <View
-                        key={`${d}-${i}`}
-                        style={{
-                          paddingVertical: 4, paddingHorizontal: 8, borderRadius: 999,
-                          backgroundColor: '#F3F4F6', borderWidth: 1, borderColor: '#E5E7EB'
-                        }}
-                      >
-                        <Text style={{ fontSize: 12, color: '#111827' }}>{d}</Text>
-                      </View>
-                    ))}
-                  </View>
-                )}
+                {(r.breakdown ?? []).map((b, i) => (
+                  <View key={`${b.disease}-${i}`} style={{ marginTop: i === 0 ? 0 : 12 }}>
+                    {/* Which disease this reason is for */}
+                    <View
+                      style={{
+                        alignSelf: 'flex-start', paddingVertical: 4, paddingHorizontal: 8, borderRadius: 999,
+                        backgroundColor: '#F3F4F6', borderWidth: 1, borderColor: '#E5E7EB', marginBottom: 6
+                      }}
+                    >
+                      <Text style={{ fontSize: 12, color: '#111827' }}>{b.disease}</Text>
+                    </View>
 
-                {Array.isArray(r.sources) && r.sources.length > 0 && (
-                  <View style={{ marginTop: 8, gap: 4 }}>
-                    {r.sources.map((s, i) => (
-                      <Pressable
-                        key={`${s.label}-${i}`}
-                        onPress={() => s.url && Linking.openURL(s.url)}
-                        disabled={!s.url}
-                        style={({ pressed }) => (pressed && s.url ? { opacity: 0.85 } : undefined)}
-                      >
-                        <Text style={[styles.sourceLine, !s.url && { color: '#6B7280' }]}>
-                          • {s.label}{s.url ? '  ↗' : ''}
-                        </Text>
-                      </Pressable>
-                    ))}
+                    <Text style={{ fontSize: 14, color: '#374151' }}>{b.reason}</Text>
+
+                    {Array.isArray(b.sources) && b.sources.length > 0 && (
+                      <View style={{ marginTop: 8, gap: 4 }}>
+                        {b.sources.map((s, j) => (
+                          <Pressable
+                            key={`${s.label}-${j}`}
+                            onPress={() => s.url && Linking.openURL(s.url)}
+                            disabled={!s.url}
+                            style={({ pressed }) => (pressed && s.url ? { opacity: 0.85 } : undefined)}
+                          >
+                            <Text style={[styles.sourceLine, !s.url && { color: '#6B7280' }]}>
+                              • {s.label}{s.url ? '  ↗' : ''}
+                            </Text>
+                            <SourceDetails source={s} />
+                          </Pressable>
+                        ))}
+                      </View>
+                    )}
                   </View>
-                )}
+                ))}
               </View>
             )}
           </View>
@@ -634,6 +724,18 @@ function ResultAccordion({ rows }: { rows: Row[] }) {
   );
 }
 
+/** Publisher · year · type and the quoted evidence under a source link */
+function SourceDetails({ source }: { source: SourceRef }) {
+  const meta = [source.publisher, source.year, source.sourceType].filter(Boolean).join(' · ');
+  if (!meta && !source.snippet) return null;
+  return (
+    <View style={{ paddingLeft: 12 }}>
+      {!!meta && <Text style={styles.sourceMeta}>{meta}</Text>}
+      {!!source.snippet && <Text style={styles.sourceSnippet}>“{source.snippet}”</Text>}
+    </View>
+  );
+}
+
 /** ===== Small UI atoms ===== */
 function ModeChip({
   emoji,
@@ -680,6 +782,35 @@ function ModeChip({
   );
 }
 
+/** Tappable "Did you mean…" chips shown under a not-found error or unknown name */
+function DidYouMean({
+  suggestions,
+  onPick,
+}: {
+  suggestions: Suggestion[];
+  onPick: (name: string) => void;
+}) {
+  if (suggestions.length === 0) return null;
+  return (
+    <View style={{ marginTop: 14 }}>
+      <Text style={styles.sectionLabel}>Did you mean…</Text>
+      <View style={[styles.modeRow, { marginTop: 8 }]}>
+        {suggestions.map(s => (
+          <Pressable
+            key={`${s.type}-${s.name}`}
+            onPress={() => onPick(s.name)}
+            style={({ pressed }) => [styles.chip, styles.suggestionChip, pressed && { opacity: 0.9 }]}
+            accessibilityLabel={`Search for ${s.name}`}
+            {...webOnly({ role: 'button' })}
+          >
+            <Text style={[styles.chipText, { color: '#0054D1' }]}>{s.name}</Text>
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+}
+
 function FilterChip({
   emoji,
   label,
@@ -806,6 +937,8 @@ const styles = StyleSheet.create({
     }),
   },
  chipText: { fontSize: 16},
+  suggestionChip: { backgroundColor: '#F7FBFF', borderColor: '#0054D1' },
+  diseaseChip: { backgroundColor: '#FFFFFF', borderColor: '#E5E7EB' },
 
   // prompt row
   bigPrompt: {
@@ -884,4 +1017,6 @@ const styles = StyleSheet.create({
   // titles
   title: { fontSize: 30, color: '#0F172A', fontFamily: 'PretendardJP-Light', marginBottom: 25 },
   sourceLine: { fontSize: 13, color: '#2563EB' },
+  sourceMeta: { fontSize: 12, color: '#6B7280' },
+  sourceSnippet: { fontSize: 12, color: '#374151', fontStyle: 'italic', marginTop: 2 },
 });
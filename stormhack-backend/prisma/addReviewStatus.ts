@@ -0,0 +1,53 @@
+import { PrismaClient } from "@prisma/client";
+
+// One-off migration adding the review workflow columns. Run BEFORE `db:push`,
+// which would otherwise add `status` with its "draft" default and hide every
+// existing relation and source from the public endpoints. Rows that are
+// already live are marked approved; rows created afterwards start as drafts.
+// `db:push` then finds nothing left to change. Safe to run more than once.
+
+const prisma = new PrismaClient();
+
+const TABLES = ["IngredientInteraction", "IngredientBenefit", "DiseaseIngredient", "Source"];
+
+async function main() {
+  console.log("📝 Adding review status to relations and sources...");
+
+  await prisma.$transaction(async (tx) => {
+    for (const table of TABLES) {
+      const [{ count }] = await tx.$queryRawUnsafe<[{ count: bigint }]>(
+        `SELECT COUNT(*) AS count FROM information_schema.columns
+         WHERE table_name = '${table}' AND column_name = 'status'`
+      );
+      if (count > 0n) {
+        console.log(`✅ ${table}: already has a review status`);
+        continue;
+      }
+
+      await tx.$executeRawUnsafe(`
+        ALTER TABLE "${table}"
+          ADD COLUMN "status" TEXT NOT NULL DEFAULT 'approved',
+          ADD COLUMN "submittedBy" TEXT,
+          ADD COLUMN "submittedAt" TIMESTAMP(3),
+          ADD COLUMN "reviewedBy" TEXT,
+          ADD COLUMN "reviewedAt" TIMESTAMP(3)`);
+      await tx.$executeRawUnsafe(
+        `ALTER TABLE "${table}" ALTER COLUMN "status" SET DEFAULT 'draft'`
+      );
+      const [{ rows }] = await tx.$queryRawUnsafe<[{ rows: bigint }]>(
+        `SELECT COUNT(*) AS rows FROM "${table}"`
+      );
+      console.log(`✅ ${table}: ${rows} existing rows approved`);
+    }
+  });
+  console.log("📝 Done! Run `npm run db:push` to confirm the schema matches");
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Review status migration failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
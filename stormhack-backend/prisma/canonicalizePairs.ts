@@ -0,0 +1,166 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { addCanonicalPairChecks, canonicalPair } from "../src/lib/ingredientPairs";
+import { auditAll, scriptActor } from "../src/lib/audit";
+import { EvidenceGrade, strongerEvidence } from "../src/lib/evidence";
+
+// Data migration for ingredient pairs, run by `npm run db:push` after the
+// schema is pushed (or on its own):
+//   1. merges reversed duplicates, e.g. (milk, spinach) into (spinach, milk),
+//      keeping the approved row if there is one, the higher severity, the
+//      stronger evidence, both reasons and every distinct citation; the pair
+//      stays context-dependent if either row was
+//   2. flips remaining rows into canonical order (ingredientAId < ingredientBId)
+//   3. adds CHECK constraints so the database rejects non-canonical pairs
+// Safe to run more than once.
+
+const prisma = new PrismaClient();
+
+type PairRow = {
+  id: string;
+  ingredientAId: string;
+  ingredientBId: string;
+  reason: string;
+  severity: number;
+  evidence: string;
+  contextDependent: boolean;
+  status: string;
+  createdAt: Date;
+  sources: { id: string; sourceId: string }[]; // citation links
+};
+
+type PairTable = {
+  table: "IngredientInteraction" | "IngredientBenefit";
+  findAll: (tx: Prisma.TransactionClient) => Promise<PairRow[]>;
+  update: (
+    tx: Prisma.TransactionClient,
+    id: string,
+    data: Partial<Omit<PairRow, "id" | "sources" | "createdAt" | "status">>
+  ) => Promise<unknown>;
+  remove: (tx: Prisma.TransactionClient, id: string) => Promise<unknown>;
+  moveCitation: (
+    tx: Prisma.TransactionClient,
+    id: string,
+    pairId: string
+  ) => Promise<unknown>;
+  removeCitation: (tx: Prisma.TransactionClient, id: string) => Promise<unknown>;
+};
+
+const tables: PairTable[] = [
+  {
+    table: "IngredientInteraction",
+    findAll: (tx) =>
+      tx.ingredientInteraction.findMany({ include: { sources: true } }),
+    update: (tx, id, data) =>
+      tx.ingredientInteraction.update({ where: { id }, data }),
+    remove: (tx, id) => tx.ingredientInteraction.delete({ where: { id } }),
+    moveCitation: (tx, id, interactionId) =>
+      tx.interactionSource.update({ where: { id }, data: { interactionId } }),
+    removeCitation: (tx, id) => tx.interactionSource.delete({ where: { id } }),
+  },
+  {
+    table: "IngredientBenefit",
+    findAll: (tx) => tx.ingredientBenefit.findMany({ include: { sources: true } }),
+    update: (tx, id, data) =>
+      tx.ingredientBenefit.update({ where: { id }, data }),
+    remove: (tx, id) => tx.ingredientBenefit.delete({ where: { id } }),
+    moveCitation: (tx, id, benefitId) =>
+      tx.benefitSource.update({ where: { id }, data: { benefitId } }),
+    removeCitation: (tx, id) => tx.benefitSource.delete({ where: { id } }),
+  },
+];
+
+async function canonicalize(tx: Prisma.TransactionClient, pairs: PairTable) {
+  const rows = await pairs.findAll(tx);
+
+  const groups = new Map<string, PairRow[]>();
+  rows.forEach((row) => {
+    const { ingredientAId, ingredientBId } = canonicalPair(
+      row.ingredientAId,
+      row.ingredientBId
+    );
+    const key = `${ingredientAId}:${ingredientBId}`;
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  });
+
+  let merged = 0;
+  let flipped = 0;
+
+  for (const group of groups.values()) {
+    // Keep the approved row, then the most severe (oldest on ties), and fold
+    // the other one into it. Its review status stays as it is.
+    group.sort(
+      (a, b) =>
+        Number(b.status === "approved") - Number(a.status === "approved") ||
+        b.severity - a.severity ||
+        a.createdAt.getTime() - b.createdAt.getTime()
+    );
+    const [keep, ...duplicates] = group as [PairRow, ...PairRow[]];
+
+    let reason = keep.reason;
+    let severity = keep.severity;
+    let evidence = keep.evidence as EvidenceGrade;
+    let contextDependent = keep.contextDependent;
+    const seenSources = new Set(keep.sources.map((citation) => citation.sourceId));
+    for (const duplicate of duplicates) {
+      if (!reason.includes(duplicate.reason)) {
+        reason = `${reason} ${duplicate.reason}`;
+      }
+      severity = Math.max(severity, duplicate.severity);
+      evidence = strongerEvidence(evidence, duplicate.evidence as EvidenceGrade);
+      contextDependent ||= duplicate.contextDependent;
+      for (const citation of duplicate.sources) {
+        if (seenSources.has(citation.sourceId)) {
+          await pairs.removeCitation(tx, citation.id);
+        } else {
+          seenSources.add(citation.sourceId);
+          await pairs.moveCitation(tx, citation.id, keep.id);
+        }
+      }
+      await pairs.remove(tx, duplicate.id);
+      merged++;
+    }
+
+    const canonical = canonicalPair(keep.ingredientAId, keep.ingredientBId);
+    const needsFlip = canonical.ingredientAId !== keep.ingredientAId;
+    if (needsFlip || duplicates.length > 0) {
+      await pairs.update(tx, keep.id, {
+        ...canonical,
+        reason,
+        severity,
+        evidence,
+        contextDependent,
+      });
+    }
+    if (needsFlip) flipped++;
+  }
+
+  console.log(
+    `✅ ${pairs.table}: merged ${merged} reversed duplicates, flipped ${flipped} rows`
+  );
+}
+
+async function main() {
+  console.log("🔁 Canonicalizing ingredient pairs...");
+  await prisma.$transaction(
+    async (tx) => {
+      await auditAll(tx, scriptActor("canonicalize pairs"), async () => {
+        for (const pairs of tables) {
+          await canonicalize(tx, pairs);
+        }
+      });
+      await addCanonicalPairChecks(tx);
+      console.log("✅ Added the canonical pair CHECK constraints");
+    },
+    { timeout: 60_000 }
+  );
+  console.log("🔁 Done!");
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Canonicalization failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
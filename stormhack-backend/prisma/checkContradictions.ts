@@ -0,0 +1,44 @@
+import { findContradictions } from "../src/lib/contradictions";
+import { prisma } from "../src/lib/prisma";
+
+// Reports ingredient pairs that are both an interaction and a benefit, and
+// disease/ingredient relations that are both AVOID and BENEFICIAL.
+// Exits non-zero if any contradiction isn't marked context-dependent.
+
+async function main() {
+  console.log("🔎 Checking for contradictions...");
+  const report = await findContradictions();
+
+  report.pairContradictions.forEach((c) => {
+    const status = c.contextDependent ? "context-dependent" : "UNRESOLVED";
+    console.log(`   [${status}] ${c.ingredients.join(" + ")}`);
+    console.log(`      avoid (${c.interaction.severity}): ${c.interaction.reason}`);
+    console.log(`      benefit (${c.benefit.severity}): ${c.benefit.reason}`);
+  });
+  report.diseaseContradictions.forEach((c) => {
+    const status = c.contextDependent ? "context-dependent" : "UNRESOLVED";
+    console.log(`   [${status}] ${c.disease} / ${c.ingredient}`);
+    console.log(`      avoid (${c.avoid.severity}): ${c.avoid.reason}`);
+    console.log(`      beneficial (${c.beneficial.severity}): ${c.beneficial.reason}`);
+  });
+
+  const total =
+    report.pairContradictions.length + report.diseaseContradictions.length;
+  if (report.unresolvedCount > 0) {
+    console.error(
+      `❌ ${report.unresolvedCount} unresolved of ${total} contradictions`
+    );
+    process.exitCode = 1;
+  } else {
+    console.log(`✅ No unresolved contradictions (${total} context-dependent)`);
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Contradiction check failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,55 @@
+import { checkSourceLinks, fetchClient } from "../src/lib/linkChecker";
+import { prisma } from "../src/lib/prisma";
+
+// Checks every Source.url, following redirects, and stores the status, the
+// redirect chain, the final url and the time in LinkCheck. Meant to run on a
+// schedule; the admin report is GET /api/admin/integrity/links.
+// Exits non-zero if any link is broken.
+// Usage: npm run db:check-links -- [--stale-hours <n>] [--timeout <ms>]
+
+const numberFlag = (args: string[], flag: string) => {
+  const index = args.indexOf(flag);
+  if (index < 0) return undefined;
+  const value = Number(args[index + 1]);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`${flag} must be a positive number`);
+  }
+  return value;
+};
+
+async function main() {
+  const args = process.argv.slice(2);
+  const staleHours = numberFlag(args, "--stale-hours");
+  const timeout = numberFlag(args, "--timeout");
+
+  console.log(
+    `🔗 Checking source links${staleHours ? ` not checked in the last ${staleHours}h` : ""}...`
+  );
+  const results = await checkSourceLinks({
+    client: fetchClient(timeout),
+    ...(staleHours && { staleBefore: new Date(Date.now() - staleHours * 3_600_000) }),
+    onResult: (label, result) => {
+      if (result.broken) {
+        console.error(`   ❌ ${label}: ${result.error ?? result.status} (${result.url})`);
+      } else if (result.redirects.length > 0) {
+        console.log(`   ↪️  ${label}: ${result.url} -> ${result.finalUrl}`);
+      }
+    },
+  });
+
+  const broken = results.filter((r) => r.broken).length;
+  const redirected = results.filter((r) => !r.broken && r.redirects.length > 0).length;
+  console.log(
+    `\n📊 ${results.length} checked: ${results.length - broken} ok (${redirected} redirected), ${broken} broken`
+  );
+  if (broken > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Link check failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,65 @@
+import { randomBytes } from "crypto";
+import { prisma } from "../src/lib/prisma";
+import {
+  ACCOUNT_ROLES,
+  DEFAULT_ROLE,
+  hashPassword,
+  isAccountRole,
+  MIN_PASSWORD_LENGTH,
+} from "../src/lib/auth";
+
+// Create an account from the command line, e.g. the first admin, who can then
+// promote others through the API. An existing account just gets the new role.
+// The password is taken from NEW_USER_PASSWORD, or generated and printed once.
+// Usage: npm run auth:create-user -- <email> [--name <name>] [--role user|curator|admin]
+
+const USAGE = `Usage: npm run auth:create-user -- <email> [--name <name>] [--role ${ACCOUNT_ROLES.join("|")}]`;
+
+const option = (args: string[], name: string) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+
+async function main() {
+  const args = process.argv.slice(2);
+  const email = args[0]?.trim().toLowerCase();
+  if (!email || email.startsWith("--")) throw new Error(USAGE);
+
+  const role = option(args, "role") ?? DEFAULT_ROLE;
+  if (!isAccountRole(role)) throw new Error(USAGE);
+
+  const existing = await prisma.user.findUnique({ where: { email } });
+  if (existing) {
+    await prisma.user.update({ where: { email }, data: { role } });
+    console.log(`✅ ${email} already exists, role set to ${role}`);
+    return;
+  }
+
+  const given = process.env.NEW_USER_PASSWORD;
+  if (given !== undefined && given.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`NEW_USER_PASSWORD must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  const password = given ?? randomBytes(12).toString("base64url");
+
+  await prisma.user.create({
+    data: {
+      email,
+      name: option(args, "name") ?? email.split("@")[0]!,
+      passwordHash: await hashPassword(password),
+      role,
+    },
+  });
+  console.log(`✅ Created ${role} ${email}`);
+  if (given === undefined) {
+    console.log(`🔑 Password: ${password} (shown once, sign in and keep it safe)`);
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Creating the account failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
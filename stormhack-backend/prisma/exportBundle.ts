@@ -0,0 +1,58 @@
+import { readFile, writeFile } from "fs/promises";
+import { writeDataset } from "../src/lib/dataset";
+import {
+  bundleToDataset,
+  exportBundle,
+  verifyBundle,
+} from "../src/lib/knowledgeBundle";
+import { prisma } from "../src/lib/prisma";
+
+// Snapshot the knowledge base into a versioned JSON bundle, and/or write it out
+// in the curated CSV layout.
+// Usage: npm run db:export -- [--out <bundle.json>] [--csv <dir>] [--from <bundle.json>]
+//   --from reads an existing bundle instead of the database
+
+const option = (args: string[], name: string) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+async function main() {
+  const args = process.argv.slice(2);
+  const out = option(args, "--out");
+  const csvDir = option(args, "--csv");
+  const from = option(args, "--from");
+  // Without --out/--csv the bundle itself goes to stdout, so keep it clean
+  const log = out || csvDir ? console.log : console.error;
+
+  const bundle = from
+    ? verifyBundle(JSON.parse(await readFile(from, "utf8")))
+    : await exportBundle();
+  log(
+    `📦 ${from ? `Read ${from}` : "Exported the knowledge base"} (${bundle.checksum})`
+  );
+  Object.entries(bundle.counts).forEach(([table, count]) =>
+    log(`   - ${count} ${table}`)
+  );
+
+  if (out) {
+    await writeFile(out, JSON.stringify(bundle, null, 2) + "\n", "utf8");
+    console.log(`✅ Wrote bundle to ${out}`);
+  }
+  if (csvDir) {
+    await writeDataset(bundleToDataset(bundle), csvDir);
+    console.log(`✅ Wrote CSV dataset to ${csvDir}`);
+  }
+  if (!out && !csvDir) {
+    console.log(JSON.stringify(bundle, null, 2));
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Export failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
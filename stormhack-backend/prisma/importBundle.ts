@@ -0,0 +1,35 @@
+import { readFile } from "fs/promises";
+import { importBundle, verifyBundle } from "../src/lib/knowledgeBundle";
+import { prisma } from "../src/lib/prisma";
+import { scriptActor } from "../src/lib/audit";
+
+// Restore a bundle written by `db:export`, keeping its ids. Refuses to run
+// against a non-empty database unless --replace is given.
+// Usage: npm run db:import -- <bundle.json> [--replace]
+
+async function main() {
+  const args = process.argv.slice(2);
+  const file = args.find((arg) => !arg.startsWith("--"));
+  if (!file) throw new Error("Usage: npm run db:import -- <bundle.json> [--replace]");
+
+  const bundle = verifyBundle(JSON.parse(await readFile(file, "utf8")));
+  console.log(`📦 Restoring ${file} (exported ${bundle.exportedAt})...`);
+
+  const counts = await importBundle(bundle, {
+    replace: args.includes("--replace"),
+    actor: scriptActor("bundle import"),
+  });
+  Object.entries(counts).forEach(([table, count]) =>
+    console.log(`   - ${count} ${table}`)
+  );
+  console.log("✅ Restore completed");
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Import failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,522 @@
+import readline from "readline/promises";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../src/lib/prisma";
+import {
+  Dataset,
+  DatasetDiseaseRelation,
+  DatasetPair,
+  DatasetSource,
+  diseaseRelationKey,
+  DISEASE_TYPES,
+  pairKey,
+  sourceKey,
+} from "../src/lib/dataset";
+import { applySync, planSync, SyncChange } from "../src/lib/datasetSync";
+import {
+  normalizeIngredientName,
+  resolveIngredients,
+} from "../src/lib/ingredientResolver";
+import { reviewFields } from "../src/lib/review";
+import { scriptActor } from "../src/lib/audit";
+import { ACTIVE } from "../src/lib/contradictions";
+
+// One-off migration off the Flyway schema that used to live in db/migration
+// (lowercase tables `ingredient`, `condition`, a polymorphic `interaction`
+// keyed by INGREDIENT/CONDITION, `source`, `interaction_source`). Its rows are
+// copied into the Prisma models, which every endpoint reads from:
+//   - INGREDIENT-INGREDIENT "avoid"/"benefit" -> IngredientInteraction/IngredientBenefit
+//   - CONDITION-INGREDIENT "avoid"/"benefit" -> DiseaseIngredient AVOID/BENEFICIAL
+//   - condition -> Disease, its kind or duration giving the type
+//   - source and interaction_source -> Source and the citation tables
+// The copy goes through the dataset sync planner but only inserts: rows that
+// already exist keep their values and gain any missing citations. New
+// relations and sources wait in review. A pair that ends up both avoid and
+// benefit is marked contextDependent for the curator to settle.
+//
+// Then the legacy tables, enum, trigger function and Flyway history are moved
+// out of the way into the `legacy` Postgres schema rather than dropped: what
+// has no Prisma equivalent (condition aliases, a condition's kind and
+// duration) stays readable there. Run BEFORE `db:push`, which would otherwise
+// offer to drop those tables with their data. Safe to run more than once.
+// Usage: npm run db:migrate-legacy-schema -- [--yes]
+
+const SUBMITTER = "legacy schema migration";
+
+// Where the legacy objects are kept once their rows are copied
+const ARCHIVE_SCHEMA = "legacy";
+
+// Children first, so the drop order respects the foreign keys
+const LEGACY_TABLES = [
+  "interaction_source",
+  "interaction",
+  "condition_alias",
+  "condition",
+  "ingredient_alias",
+  "ingredient",
+  "source",
+];
+
+type EntityType = "INGREDIENT" | "CONDITION";
+
+type LegacyIngredient = { id: bigint; name: string; category: string | null };
+type LegacyCondition = {
+  id: bigint;
+  name: string;
+  kind: string | null;
+  duration: string | null;
+};
+type LegacyAlias = { ownerId: bigint; alias: string };
+type LegacyInteraction = {
+  id: bigint;
+  aType: EntityType;
+  aId: bigint;
+  bType: EntityType;
+  bId: bigint;
+  itype: string | null;
+  rationale: string | null;
+};
+type LegacySource = {
+  id: bigint;
+  label: string;
+  url: string | null;
+  publisher: string | null;
+  year: number | null;
+};
+type LegacyCitation = { interactionId: bigint; sourceId: bigint };
+
+const legacyTablesPresent = async () => {
+  const rows = await prisma.$queryRaw<{ table_name: string }[]>`
+    SELECT table_name FROM information_schema.tables
+    WHERE table_schema = current_schema() AND table_name IN (${Prisma.join(LEGACY_TABLES)})`;
+  return rows.map((row) => row.table_name);
+};
+
+const readLegacy = async () => {
+  const [
+    ingredients,
+    ingredientAliases,
+    conditions,
+    conditionAliases,
+    interactions,
+    sources,
+    citations,
+  ] = await prisma.$transaction([
+    prisma.$queryRaw<LegacyIngredient[]>`
+      SELECT id, name, category FROM "ingredient" ORDER BY id`,
+    prisma.$queryRaw<LegacyAlias[]>`
+      SELECT ingredient_id AS "ownerId", alias FROM "ingredient_alias" ORDER BY id`,
+    prisma.$queryRaw<LegacyCondition[]>`
+      SELECT id, name, kind, duration FROM "condition" ORDER BY id`,
+    prisma.$queryRaw<LegacyAlias[]>`
+      SELECT condition_id AS "ownerId", alias FROM "condition_alias" ORDER BY id`,
+    prisma.$queryRaw<LegacyInteraction[]>`
+      SELECT id, a_type::text AS "aType", a_id AS "aId", b_type::text AS "bType",
+             b_id AS "bId", itype, rationale
+      FROM "interaction" ORDER BY id`,
+    prisma.$queryRaw<LegacySource[]>`
+      SELECT id, label, url, publisher, year FROM "source" ORDER BY id`,
+    prisma.$queryRaw<LegacyCitation[]>`
+      SELECT interaction_id AS "interactionId", source_id AS "sourceId"
+      FROM "interaction_source" ORDER BY id`,
+  ]);
+  return {
+    ingredients,
+    ingredientAliases,
+    conditions,
+    conditionAliases,
+    interactions,
+    sources,
+    citations,
+  };
+};
+
+type Legacy = Awaited<ReturnType<typeof readLegacy>>;
+
+const toDatasetSource = (source: LegacySource): DatasetSource => ({
+  label: source.label.trim(),
+  url: source.url?.trim() || null,
+  publisher: source.publisher,
+  year: source.year,
+  accessedAt: null,
+  snippet: null,
+  sourceType: null,
+});
+
+// Legacy rows in the curated dataset shape. `errors` lists interactions with
+// no place in the Prisma models; nothing is written while there are any.
+const toDataset = async (legacy: Legacy) => {
+  const errors: string[] = [];
+  const notes: string[] = [];
+
+  // Ingredients resolve through existing names and aliases, so a legacy
+  // "garbanzo beans" lands on the existing "chickpeas"
+  const resolved = await resolveIngredients(legacy.ingredients.map((i) => i.name));
+  const ingredientName = new Map<string, string>();
+  const ingredients = new Map<string, Dataset["ingredients"][number]>();
+  legacy.ingredients.forEach(({ id, name, category }) => {
+    const normalized = normalizeIngredientName(name);
+    const canonical = resolved.get(normalized)?.ingredient.name ?? normalized;
+    ingredientName.set(String(id), canonical);
+    if (!ingredients.has(canonical)) {
+      ingredients.set(canonical, { name: canonical, category, aliases: [] });
+    }
+  });
+  const aliasTargets = await resolveIngredients(
+    legacy.ingredientAliases.map((a) => a.alias)
+  );
+  legacy.ingredientAliases.forEach(({ ownerId, alias }) => {
+    const owner = ingredientName.get(String(ownerId))!;
+    const normalized = normalizeIngredientName(alias);
+    const existing = aliasTargets.get(normalized)?.ingredient.name;
+    if (normalized === owner || ingredients.has(normalized) || existing) {
+      if (existing && existing !== owner) {
+        notes.push(`alias "${normalized}" of "${owner}" already names "${existing}", skipped`);
+      }
+      return;
+    }
+    const ingredient = ingredients.get(owner)!;
+    if (!ingredient.aliases.includes(normalized)) ingredient.aliases.push(normalized);
+  });
+
+  const conditionName = new Map<string, string>();
+  const diseases = new Map<string, Dataset["diseases"][number]>();
+  legacy.conditions.forEach(({ id, name, kind, duration }) => {
+    const normalized = normalizeIngredientName(name);
+    conditionName.set(String(id), normalized);
+    const type =
+      DISEASE_TYPES[(kind ?? "").trim().toLowerCase()] ??
+      DISEASE_TYPES[(duration ?? "").trim().toLowerCase()] ??
+      "chronic";
+    if (!diseases.has(normalized)) {
+      diseases.set(normalized, { name: normalized, description: null, type });
+    }
+  });
+  if (legacy.conditionAliases.length > 0) {
+    notes.push(
+      `${legacy.conditionAliases.length} condition alias(es) can't be copied, diseases have no aliases; they stay in "${ARCHIVE_SCHEMA}"."condition_alias": ${legacy.conditionAliases
+        .map((a) => `"${a.alias}"`)
+        .join(", ")}`
+    );
+  }
+
+  const sourcesById = new Map(legacy.sources.map((s) => [String(s.id), toDatasetSource(s)]));
+  const citedBy = new Map<string, DatasetSource[]>();
+  legacy.citations.forEach(({ interactionId, sourceId }) => {
+    const list = citedBy.get(String(interactionId)) ?? [];
+    list.push(sourcesById.get(String(sourceId))!);
+    citedBy.set(String(interactionId), list);
+  });
+
+  // Interactions listed in both directions are merged, keeping both
+  // rationales and every source
+  const merge = <T extends DatasetPair | DatasetDiseaseRelation>(
+    rows: Map<string, T>,
+    key: string,
+    row: T
+  ) => {
+    const existing = rows.get(key);
+    if (!existing) {
+      rows.set(key, row);
+      return;
+    }
+    if (!existing.reason.includes(row.reason)) {
+      existing.reason = `${existing.reason} ${row.reason}`;
+    }
+    const cited = new Set(existing.sources.map(sourceKey));
+    existing.sources.push(...row.sources.filter((s) => !cited.has(sourceKey(s))));
+  };
+
+  const interactions = new Map<string, DatasetPair>();
+  const benefits = new Map<string, DatasetPair>();
+  const diseaseRelations = new Map<string, DatasetDiseaseRelation>();
+  legacy.interactions.forEach((row) => {
+    const label = `interaction ${row.id} (${row.aType} ${row.aId} / ${row.bType} ${row.bId})`;
+    if (row.itype !== "avoid" && row.itype !== "benefit") {
+      errors.push(`${label} has no itype, so it's neither avoid nor benefit`);
+      return;
+    }
+    const values = {
+      reason: row.rationale?.trim() || "No rationale recorded in the legacy schema",
+      severity: null,
+      evidence: null,
+      contextDependent: false,
+      sources: [...(citedBy.get(String(row.id)) ?? [])],
+    };
+
+    if (row.aType === "INGREDIENT" && row.bType === "INGREDIENT") {
+      const a = ingredientName.get(String(row.aId));
+      const b = ingredientName.get(String(row.bId));
+      if (!a || !b) {
+        errors.push(`${label} refers to a missing ingredient`);
+      } else if (a === b) {
+        errors.push(`${label} pairs "${a}" with itself`);
+      } else {
+        merge(row.itype === "avoid" ? interactions : benefits, pairKey(a, b), {
+          ...values,
+          ingredients: [a, b],
+        });
+      }
+      return;
+    }
+
+    if (row.aType === "CONDITION" && row.bType === "CONDITION") {
+      errors.push(`${label} links two conditions, which has no equivalent`);
+      return;
+    }
+
+    const [conditionId, ingredientId] =
+      row.aType === "CONDITION" ? [row.aId, row.bId] : [row.bId, row.aId];
+    const disease = conditionName.get(String(conditionId));
+    const ingredient = ingredientName.get(String(ingredientId));
+    if (!disease || !ingredient) {
+      errors.push(`${label} refers to a missing condition or ingredient`);
+      return;
+    }
+    const type = row.itype === "avoid" ? "AVOID" : "BENEFICIAL";
+    merge(diseaseRelations, diseaseRelationKey(disease, ingredient, type), {
+      ...values,
+      disease,
+      ingredient,
+      type,
+    });
+  });
+
+  const dataset: Dataset = {
+    ingredients: Array.from(ingredients.values()),
+    diseases: Array.from(diseases.values()),
+    interactions: Array.from(interactions.values()),
+    benefits: Array.from(benefits.values()),
+    diseaseRelations: Array.from(diseaseRelations.values()),
+  };
+  return { dataset, errors, notes, uncited: legacy.sources.map(toDatasetSource) };
+};
+
+// The legacy schema had no way to say "both, depending on context", so a pair
+// that is avoid and benefit (here or together with an existing active row) is
+// marked contextDependent instead of failing the contradiction check. Retired
+// rows don't count, as in lib/contradictions.
+const markContradictions = async (dataset: Dataset) => {
+  const pairNames = { where: ACTIVE, select: { ingredientA: true, ingredientB: true } };
+  const [storedInteractions, storedBenefits, storedRelations] = await Promise.all([
+    prisma.ingredientInteraction.findMany(pairNames),
+    prisma.ingredientBenefit.findMany(pairNames),
+    prisma.diseaseIngredient.findMany({
+      where: ACTIVE,
+      select: { disease: true, ingredient: true, type: true },
+    }),
+  ]);
+  const keysOf = (rows: { ingredientA: { name: string }; ingredientB: { name: string } }[]) =>
+    rows.map((row) => pairKey(row.ingredientA.name, row.ingredientB.name));
+
+  const avoidPairs = new Set([
+    ...keysOf(storedInteractions),
+    ...dataset.interactions.map((p) => pairKey(...p.ingredients)),
+  ]);
+  const benefitPairs = new Set([
+    ...keysOf(storedBenefits),
+    ...dataset.benefits.map((p) => pairKey(...p.ingredients)),
+  ]);
+  let marked = 0;
+  dataset.interactions.forEach((pair) => {
+    if (benefitPairs.has(pairKey(...pair.ingredients))) {
+      pair.contextDependent = true;
+      marked += 1;
+    }
+  });
+  dataset.benefits.forEach((pair) => {
+    if (avoidPairs.has(pairKey(...pair.ingredients))) {
+      pair.contextDependent = true;
+      marked += 1;
+    }
+  });
+
+  const relationKeys = new Set([
+    ...storedRelations.map((r) => diseaseRelationKey(r.disease.name, r.ingredient.name, r.type)),
+    ...dataset.diseaseRelations.map((r) => diseaseRelationKey(r.disease, r.ingredient, r.type)),
+  ]);
+  dataset.diseaseRelations.forEach((relation) => {
+    const opposite = relation.type === "AVOID" ? "BENEFICIAL" : "AVOID";
+    if (relationKeys.has(diseaseRelationKey(relation.disease, relation.ingredient, opposite))) {
+      relation.contextDependent = true;
+      marked += 1;
+    }
+  });
+  return marked;
+};
+
+// Legacy sources that no interaction cites are kept too
+const uncitedSourceInserts = async (dataset: Dataset, sources: DatasetSource[]) => {
+  const cited = new Set(
+    [...dataset.interactions, ...dataset.benefits, ...dataset.diseaseRelations].flatMap((r) =>
+      r.sources.map(sourceKey)
+    )
+  );
+  const stored = new Set((await prisma.source.findMany()).map(sourceKey));
+  const seen = new Set<string>();
+  return sources
+    .filter((source) => {
+      const key = sourceKey(source);
+      if (cited.has(key) || stored.has(key) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(
+      (source): SyncChange => ({
+        action: "insert",
+        entity: "source",
+        key: sourceKey(source),
+        apply: (tx) =>
+          tx.source.create({
+            data: {
+              label: source.label,
+              url: source.url,
+              publisher: source.publisher,
+              year: source.year,
+              ...reviewFields("in-review", SUBMITTER),
+            },
+          }),
+      })
+    );
+};
+
+const ARCHIVED_TABLES = [...LEGACY_TABLES, "flyway_schema_history"];
+
+// Legacy objects still in the current schema that ARCHIVE_SCHEMA already has
+// a copy of, e.g. tables restored from a backup after an earlier run. Moving
+// them would fail, so the run stops before writing anything.
+const archiveClashes = async () => {
+  const tables = await prisma.$queryRaw<{ table_name: string }[]>`
+    SELECT live.table_name FROM information_schema.tables live
+    JOIN information_schema.tables archived
+      ON archived.table_name = live.table_name AND archived.table_schema = ${ARCHIVE_SCHEMA}
+    WHERE live.table_schema = current_schema()
+      AND live.table_name IN (${Prisma.join(ARCHIVED_TABLES)})`;
+  const [other] = await prisma.$queryRawUnsafe<{ type: boolean; fn: boolean }[]>(`
+    SELECT
+      to_regtype('interaction_entity_type') IS NOT NULL
+        AND to_regtype('"${ARCHIVE_SCHEMA}".interaction_entity_type') IS NOT NULL AS type,
+      to_regprocedure('set_updated_at()') IS NOT NULL
+        AND to_regprocedure('"${ARCHIVE_SCHEMA}".set_updated_at()') IS NOT NULL AS fn`);
+  return [
+    ...tables.map((row) => `table "${row.table_name}"`),
+    ...(other?.type ? ["type interaction_entity_type"] : []),
+    ...(other?.fn ? ["function set_updated_at()"] : []),
+  ];
+};
+
+// Moves whatever is left of the legacy schema into ARCHIVE_SCHEMA, where
+// `db:push` doesn't see it. Nothing is dropped; delete the schema by hand once
+// nothing in it is needed.
+const archiveLegacySchema = () =>
+  prisma.$transaction([
+    prisma.$executeRawUnsafe(`CREATE SCHEMA IF NOT EXISTS "${ARCHIVE_SCHEMA}"`),
+    ...ARCHIVED_TABLES.map((table) =>
+      prisma.$executeRawUnsafe(`ALTER TABLE IF EXISTS "${table}" SET SCHEMA "${ARCHIVE_SCHEMA}"`)
+    ),
+    prisma.$executeRawUnsafe(`
+      DO $$ BEGIN
+        IF to_regtype('interaction_entity_type') IS NOT NULL THEN
+          ALTER TYPE interaction_entity_type SET SCHEMA "${ARCHIVE_SCHEMA}";
+        END IF;
+        IF to_regprocedure('set_updated_at()') IS NOT NULL THEN
+          ALTER FUNCTION set_updated_at() SET SCHEMA "${ARCHIVE_SCHEMA}";
+        END IF;
+      END $$`),
+  ]);
+
+const confirm = async (question: string) => {
+  if (!process.stdin.isTTY) return false;
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const answer = await rl.question(question);
+  rl.close();
+  return answer.trim().toLowerCase() === "y";
+};
+
+async function main() {
+  const yes = process.argv.slice(2).includes("--yes");
+  console.log("🔀 Looking for the legacy db/migration schema...");
+
+  const clashes = await archiveClashes();
+  if (clashes.length > 0) {
+    throw new Error(
+      `The "${ARCHIVE_SCHEMA}" schema already has ${clashes.join(", ")}, and the current schema still has them too. ` +
+        `Compare the two copies, drop or rename the one you don't need, then run again; nothing was written`
+    );
+  }
+
+  const present = await legacyTablesPresent();
+  if (present.length === 0) {
+    await archiveLegacySchema();
+    console.log("✅ No legacy tables found, nothing to migrate");
+    return;
+  }
+  if (present.length < LEGACY_TABLES.length) {
+    const missing = LEGACY_TABLES.filter((table) => !present.includes(table));
+    throw new Error(`Legacy schema is incomplete, missing: ${missing.join(", ")}`);
+  }
+
+  const legacy = await readLegacy();
+  console.log(
+    `   ${legacy.ingredients.length} ingredients, ${legacy.conditions.length} conditions, ${legacy.interactions.length} interactions, ${legacy.sources.length} sources, ${legacy.citations.length} citations`
+  );
+
+  const { dataset, errors, notes, uncited } = await toDataset(legacy);
+  notes.forEach((note) => console.warn(`   ⚠️  ${note}`));
+  errors.forEach((error) => console.error(`   ❌ ${error}`));
+  if (errors.length > 0) {
+    throw new Error(
+      `${errors.length} legacy interaction(s) can't be copied; fix them in the legacy tables, nothing was written`
+    );
+  }
+
+  const marked = await markContradictions(dataset);
+  if (marked > 0) {
+    console.warn(`   ⚠️  ${marked} relation(s) marked contextDependent, they contradict another one`);
+  }
+
+  const plan = await planSync(dataset, { submitter: SUBMITTER });
+  plan.errors.forEach((error) => console.error(`   ❌ ${error}`));
+  if (plan.errors.length > 0) {
+    throw new Error("The migration can't be applied, nothing was written");
+  }
+
+  // Rows already in the Prisma tables keep their values
+  const skipped = plan.changes.filter((change) => change.action !== "insert").length;
+  plan.changes = [
+    ...plan.changes.filter((change) => change.action === "insert"),
+    ...(await uncitedSourceInserts(dataset, uncited)),
+  ];
+
+  console.log("\n📋 To copy:");
+  plan.changes.forEach((change) => console.log(`   + ${change.entity} ${change.key}`));
+  console.log(
+    `\n   ${plan.changes.length} to insert, ${skipped} existing row(s) left as they are`
+  );
+  console.log(
+    `   Then move to the "${ARCHIVE_SCHEMA}" schema: ${ARCHIVED_TABLES.join(", ")}`
+  );
+
+  if (!yes && !(await confirm("\nApply the migration? [y/N] "))) {
+    console.log("⏸️  Not applied (pass --yes to apply without prompting)");
+    return;
+  }
+
+  await applySync(plan, scriptActor(SUBMITTER));
+  console.log("✅ Legacy rows copied (new relations and sources are in review)");
+  await archiveLegacySchema();
+  console.log(
+    `🔀 Done! Legacy tables moved to the "${ARCHIVE_SCHEMA}" schema; run \`npm run db:push\` to confirm the schema matches`
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Legacy schema migration failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,160 @@
+import { PrismaClient } from "@prisma/client";
+import { SHARED_SOURCE_FIELDS } from "../src/lib/dataset";
+
+// One-off data migration from per-relation Source rows to shared sources.
+// Run BEFORE `db:push`, which would otherwise drop the old foreign keys:
+//   0. stops, listing them, if rows that would become one Source disagree on
+//      its label, publisher, year, accessedAt or sourceType (only the oldest
+//      row's values would be kept); fix those rows and run it again
+//   1. creates the InteractionSource, BenefitSource and DiseaseIngredientSource
+//      join tables the way `db:push` would
+//   2. links every relation to one Source per url (per label when there's no
+//      url), moving each row's snippet onto its link
+//   3. deletes the now duplicate Source rows and the old columns, and makes
+//      Source.url unique
+// `db:push` then finds nothing left to change. Safe to run more than once.
+
+const prisma = new PrismaClient();
+
+type OldSource = {
+  id: string;
+  label: string;
+  url: string | null;
+  publisher: string | null;
+  year: number | null;
+  accessedAt: Date | null;
+  sourceType: string | null;
+};
+
+const show = (value: string | number | Date | null) =>
+  JSON.stringify(value instanceof Date ? value.toISOString().slice(0, 10) : value);
+
+// One line per shared-record field that the rows merged into it disagree on,
+// with every row's value
+const findConflicts = (rows: OldSource[]) => {
+  const groups = new Map<string, OldSource[]>();
+  rows.forEach((row) => {
+    const key = row.url !== null ? `url ${row.url}` : `label "${row.label}"`;
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  });
+
+  const conflicts: string[] = [];
+  groups.forEach((group, key) =>
+    SHARED_SOURCE_FIELDS.forEach((field) => {
+      if (new Set(group.map((row) => show(row[field]))).size > 1) {
+        const values = group.map((row) => `${row.id}: ${show(row[field])}`);
+        conflicts.push(`${key}: different ${field} (${values.join(", ")})`);
+      }
+    })
+  );
+  return conflicts;
+};
+
+const LINK_TABLES = [
+  { table: "InteractionSource", column: "interactionId", parent: "IngredientInteraction" },
+  { table: "BenefitSource", column: "benefitId", parent: "IngredientBenefit" },
+  {
+    table: "DiseaseIngredientSource",
+    column: "diseaseIngredientId",
+    parent: "DiseaseIngredient",
+  },
+];
+
+async function main() {
+  console.log("🔗 Sharing sources between relations...");
+
+  const [{ count }] = await prisma.$queryRaw<[{ count: bigint }]>`
+    SELECT COUNT(*) AS count FROM information_schema.columns
+    WHERE table_name = 'Source' AND column_name = 'interactionId'`;
+  if (count === 0n) {
+    console.log("✅ Sources are already shared, nothing to do");
+    return;
+  }
+
+  const conflicts = findConflicts(
+    await prisma.$queryRaw<OldSource[]>`
+      SELECT "id", "label", "url", "publisher", "year", "accessedAt", "sourceType"
+      FROM "Source" ORDER BY "id"`
+  );
+  if (conflicts.length > 0) {
+    conflicts.forEach((conflict) => console.error(`   - ${conflict}`));
+    throw new Error(
+      `${conflicts.length} source field(s) differ between rows that would be merged; ` +
+        "make those rows agree and run it again"
+    );
+  }
+
+  await prisma.$transaction(
+    async (tx) => {
+      // Oldest-id row of each url (or url-less label) becomes the shared record
+      await tx.$executeRawUnsafe(`
+        CREATE TEMP TABLE shared_source ON COMMIT DROP AS
+        SELECT "id", FIRST_VALUE("id") OVER (
+          PARTITION BY COALESCE("url", 'label:' || "label") ORDER BY "id"
+        ) AS "sharedId"
+        FROM "Source"`);
+
+      for (const { table, column, parent } of LINK_TABLES) {
+        await tx.$executeRawUnsafe(`
+          CREATE TABLE "${table}" (
+            "id" TEXT NOT NULL,
+            "${column}" TEXT NOT NULL,
+            "sourceId" TEXT NOT NULL,
+            "snippet" TEXT,
+            CONSTRAINT "${table}_pkey" PRIMARY KEY ("id")
+          )`);
+        await tx.$executeRawUnsafe(
+          `CREATE UNIQUE INDEX "${table}_${column}_sourceId_key" ON "${table}"("${column}", "sourceId")`
+        );
+        await tx.$executeRawUnsafe(`
+          INSERT INTO "${table}" ("id", "${column}", "sourceId", "snippet")
+          SELECT DISTINCT ON (s."${column}", shared."sharedId")
+            gen_random_uuid()::text, s."${column}", shared."sharedId", s."snippet"
+          FROM "Source" s JOIN shared_source shared ON shared."id" = s."id"
+          WHERE s."${column}" IS NOT NULL
+          ORDER BY s."${column}", shared."sharedId", s."snippet" NULLS LAST`);
+        const linked = await tx.$queryRawUnsafe<[{ count: bigint }]>(
+          `SELECT COUNT(*) AS count FROM "${table}"`
+        );
+        console.log(`✅ ${table}: ${linked[0].count} citations`);
+      }
+
+      const removed = await tx.$executeRawUnsafe(`
+        DELETE FROM "Source" s USING shared_source shared
+        WHERE shared."id" = s."id" AND shared."sharedId" <> s."id"`);
+      console.log(`✅ Removed ${removed} duplicate sources`);
+
+      // Dropping the columns drops their old foreign keys too
+      await tx.$executeRawUnsafe(`
+        ALTER TABLE "Source"
+          DROP COLUMN "interactionId",
+          DROP COLUMN "benefitId",
+          DROP COLUMN "diseaseIngredientId",
+          DROP COLUMN "snippet",
+          ADD COLUMN "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          ADD COLUMN "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP`);
+      await tx.$executeRawUnsafe(`ALTER TABLE "Source" ALTER COLUMN "updatedAt" DROP DEFAULT`);
+      await tx.$executeRawUnsafe(`CREATE UNIQUE INDEX "Source_url_key" ON "Source"("url")`);
+
+      for (const { table, column, parent } of LINK_TABLES) {
+        await tx.$executeRawUnsafe(
+          `ALTER TABLE "${table}" ADD CONSTRAINT "${table}_${column}_fkey" FOREIGN KEY ("${column}") REFERENCES "${parent}"("id") ON DELETE CASCADE ON UPDATE CASCADE`
+        );
+        await tx.$executeRawUnsafe(
+          `ALTER TABLE "${table}" ADD CONSTRAINT "${table}_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "Source"("id") ON DELETE CASCADE ON UPDATE CASCADE`
+        );
+      }
+    },
+    { timeout: 60_000 }
+  );
+  console.log("🔗 Done! Run `npm run db:push` to confirm the schema matches");
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Source migration failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
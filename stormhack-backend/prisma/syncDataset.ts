@@ -0,0 +1,98 @@
+import readline from "readline/promises";
+import {
+  DEFAULT_DATASET_DIR,
+  formatIssue,
+  hasErrors,
+  loadDataset,
+} from "../src/lib/dataset";
+import { applySync, planSync, SyncChange } from "../src/lib/datasetSync";
+import { prisma } from "../src/lib/prisma";
+import { scriptActor } from "../src/lib/audit";
+
+// Incremental alternative to `db:seed`: diffs the curated CSVs against the
+// database, prints the plan and applies it only once confirmed. Ids are kept
+// and rows that aren't in the dataset are left alone unless --prune is given.
+// Usage: npm run db:sync -- [--prune] [--yes] [<dataset dir>]
+
+const SYMBOLS: Record<SyncChange["action"], string> = {
+  insert: "+",
+  update: "~",
+  delete: "-",
+};
+
+const formatChange = (change: SyncChange) => {
+  const fields = Object.entries(change.fields ?? {})
+    .map(
+      ([field, { from, to }]) =>
+        `${field}: ${JSON.stringify(from)} -> ${JSON.stringify(to)}`
+    )
+    .join(", ");
+  return `   ${SYMBOLS[change.action]} ${change.entity} ${change.key}${
+    fields ? ` (${fields})` : ""
+  }`;
+};
+
+const confirm = async (question: string) => {
+  if (!process.stdin.isTTY) return false;
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const answer = await rl.question(question);
+  rl.close();
+  return answer.trim().toLowerCase() === "y";
+};
+
+async function main() {
+  const args = process.argv.slice(2);
+  const prune = args.includes("--prune");
+  const yes = args.includes("--yes");
+  const datasetDir = args.find((arg) => !arg.startsWith("--")) ?? DEFAULT_DATASET_DIR;
+  console.log(`🔄 Planning sync from ${datasetDir}${prune ? " (with prune)" : ""}...`);
+
+  const { dataset, issues } = await loadDataset(datasetDir);
+  issues.forEach((issue) =>
+    (issue.level === "error" ? console.error : console.warn)(
+      `   ${formatIssue(issue)}`
+    )
+  );
+  if (hasErrors(issues)) {
+    const count = issues.filter((issue) => issue.level === "error").length;
+    throw new Error(`${count} row(s) failed validation, nothing was written`);
+  }
+
+  const plan = await planSync(dataset, { prune });
+  plan.errors.forEach((error) => console.error(`   ❌ ${error}`));
+  if (plan.errors.length > 0) {
+    throw new Error("The plan can't be applied, nothing was written");
+  }
+  if (plan.changes.length === 0) {
+    console.log("✅ Database already matches the dataset");
+    return;
+  }
+
+  console.log("\n📋 Plan:");
+  plan.changes.forEach((change) => console.log(formatChange(change)));
+  const count = (action: SyncChange["action"]) =>
+    plan.changes.filter((change) => change.action === action).length;
+  console.log(
+    `\n   ${count("insert")} to insert, ${count("update")} to update, ${count("delete")} to delete`
+  );
+
+  if (!yes && !(await confirm("\nApply these changes? [y/N] "))) {
+    console.log("⏸️  Not applied (pass --yes to apply without prompting)");
+    return;
+  }
+
+  await applySync(plan, scriptActor("dataset sync"));
+  console.log("✅ Sync applied");
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Sync failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
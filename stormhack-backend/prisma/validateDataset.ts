@@ -0,0 +1,45 @@
+import {
+  DEFAULT_DATASET_DIR,
+  formatIssue,
+  hasErrors,
+  loadDataset,
+  validationReport,
+} from "../src/lib/dataset";
+
+// Checks the curated CSVs against DATASET_SCHEMA and across files (unknown
+// names, unmatched source keys, contradictions) without touching the database.
+// Prints a JSON report on stdout and exits with 1 if there are errors.
+// Usage: npm run dataset:validate -- [--format json|text] [<dataset dir>]
+
+async function main() {
+  const args = process.argv.slice(2);
+  const formatIndex = args.indexOf("--format");
+  const format = formatIndex >= 0 ? args[formatIndex + 1] : "json";
+  const datasetDir =
+    args.find(
+      (arg, i) => !arg.startsWith("--") && (formatIndex < 0 || i !== formatIndex + 1)
+    ) ??
+    DEFAULT_DATASET_DIR;
+  if (format !== "json" && format !== "text") {
+    throw new Error(`--format must be json or text, got "${format}"`);
+  }
+
+  const { dataset, issues } = await loadDataset(datasetDir);
+  const report = validationReport(datasetDir, dataset, issues);
+
+  if (format === "text") {
+    issues.forEach((issue) => console.log(formatIssue(issue)));
+    console.log(
+      `${report.valid ? "✅" : "❌"} ${report.summary.errors} error(s), ${report.summary.warnings} warning(s)`
+    );
+  } else {
+    console.log(JSON.stringify(report, null, 2));
+  }
+
+  if (hasErrors(issues)) process.exitCode = 1;
+}
+
+main().catch((e) => {
+  console.error("❌ Validation failed:", e);
+  process.exit(2);
+});
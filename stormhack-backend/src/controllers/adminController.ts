@@ -0,0 +1,279 @@
+import { Request, Response } from "express";
+import { ContradictionError, findContradictions } from "../lib/contradictions";
+import { exportBundle } from "../lib/knowledgeBundle";
+import {
+  AUDIT_ENTITIES,
+  AuditError,
+  isAuditEntity,
+  revertRow,
+  rowHistory,
+} from "../lib/audit";
+import { linkReport } from "../lib/linkChecker";
+import {
+  isReviewKind,
+  isReviewStatus,
+  REVIEW_KINDS,
+  REVIEW_STATUSES,
+  ReviewError,
+  reviewQueue,
+  setReviewStatus,
+} from "../lib/review";
+import { ACCOUNT_ROLES, isAccountRole, listUsers, setUserRole } from "../lib/auth";
+import { currentActor, currentUser } from "../middleware/auth";
+
+// GET /api/admin/integrity/contradictions
+// Ingredient pairs that are both an interaction and a benefit, and
+// disease/ingredient relations that are both AVOID and BENEFICIAL
+export const getContradictions = async (req: Request, res: Response) => {
+  try {
+    const { unresolved } = req.query;
+    const report = await findContradictions();
+
+    if (unresolved === "true") {
+      report.pairContradictions = report.pairContradictions.filter(
+        (c) => !c.contextDependent
+      );
+      report.diseaseContradictions = report.diseaseContradictions.filter(
+        (c) => !c.contextDependent
+      );
+    }
+
+    res.json(report);
+  } catch (error) {
+    console.error("Error in getContradictions:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// GET /api/admin/export
+// Versioned JSON bundle of the whole knowledge base, served as a download
+export const getExportBundle = async (req: Request, res: Response) => {
+  try {
+    const bundle = await exportBundle();
+    const date = bundle.exportedAt.slice(0, 10);
+
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="knowledge-base-${date}.json"`
+    );
+    res.json(bundle);
+  } catch (error) {
+    console.error("Error in getExportBundle:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// GET /api/admin/integrity/links
+// Latest link check of every source url; ?broken=true lists only broken ones
+export const getLinkReport = async (req: Request, res: Response) => {
+  try {
+    const { broken } = req.query;
+    res.json(await linkReport({ brokenOnly: broken === "true" }));
+  } catch (error) {
+    console.error("Error in getLinkReport:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// GET /api/admin/review?status=<draft|in-review|approved|retired>&kind=<kind>
+// Relations and sources in one review status (default in-review), oldest first
+export const getReviewQueue = async (req: Request, res: Response) => {
+  try {
+    const { status = "in-review", kind } = req.query;
+
+    if (!isReviewStatus(status)) {
+      return res.status(400).json({
+        error: "Bad request",
+        message: `"status" must be one of: ${REVIEW_STATUSES.join(", ")}`,
+      });
+    }
+    if (kind !== undefined && !isReviewKind(kind)) {
+      return res.status(400).json({
+        error: "Bad request",
+        message: `"kind" must be one of: ${REVIEW_KINDS.join(", ")}`,
+      });
+    }
+
+    res.json(await reviewQueue({ status, ...(kind && { kinds: [kind] }) }));
+  } catch (error) {
+    console.error("Error in getReviewQueue:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// PATCH /api/admin/review/:kind/:id
+// Body: { status }. Moves one relation or source to another status, recorded
+// under the signed-in curator
+export const updateReviewStatus = async (req: Request, res: Response) => {
+  try {
+    const { kind, id } = req.params;
+    const { status } = req.body ?? {};
+
+    if (!isReviewKind(kind)) {
+      return res.status(400).json({
+        error: "Bad request",
+        message: `"kind" must be one of: ${REVIEW_KINDS.join(", ")}`,
+      });
+    }
+    if (!isReviewStatus(status)) {
+      return res.status(400).json({
+        error: "Bad request",
+        message: `"status" must be one of: ${REVIEW_STATUSES.join(", ")}`,
+      });
+    }
+
+    const updated = await setReviewStatus(kind, id!, status, currentActor(req));
+    if (!updated) {
+      return res.status(404).json({
+        error: "Not found",
+        message: `No ${kind} with id "${id}"`,
+      });
+    }
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return res.status(409).json({ error: "Conflict", message: error.message });
+    }
+    if (error instanceof ContradictionError) {
+      return res.status(409).json({ error: "Contradiction", message: error.message });
+    }
+    console.error("Error in updateReviewStatus:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// GET /api/admin/history/:entity/:id
+// Every recorded change to one row, newest first
+export const getHistory = async (req: Request, res: Response) => {
+  try {
+    const { entity, id } = req.params;
+
+    if (!isAuditEntity(entity)) {
+      return res.status(400).json({
+        error: "Bad request",
+        message: `"entity" must be one of: ${AUDIT_ENTITIES.join(", ")}`,
+      });
+    }
+
+    res.json(await rowHistory(entity, id!));
+  } catch (error) {
+    console.error("Error in getHistory:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// POST /api/admin/history/:entity/:id/revert
+// Body: { entryId }. Restores the row as it was right after that entry
+export const revertToVersion = async (req: Request, res: Response) => {
+  try {
+    const { entity, id } = req.params;
+    const { entryId } = req.body ?? {};
+
+    if (!isAuditEntity(entity)) {
+      return res.status(400).json({
+        error: "Bad request",
+        message: `"entity" must be one of: ${AUDIT_ENTITIES.join(", ")}`,
+      });
+    }
+    if (typeof entryId !== "string" || !entryId) {
+      return res.status(400).json({
+        error: "Bad request",
+        message: 'Request body must include "entryId", the history entry to go back to',
+      });
+    }
+
+    const reverted = await revertRow(entity, id!, entryId, currentActor(req));
+    if (!reverted) {
+      return res.status(404).json({
+        error: "Not found",
+        message: `No history entry "${entryId}" for ${entity} "${id}"`,
+      });
+    }
+
+    res.json(reverted);
+  } catch (error) {
+    if (error instanceof AuditError) {
+      return res.status(409).json({ error: "Conflict", message: error.message });
+    }
+    if (error instanceof ContradictionError) {
+      return res.status(409).json({ error: "Contradiction", message: error.message });
+    }
+    console.error("Error in revertToVersion:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// GET /api/admin/users
+// Every account with its role, oldest first
+export const getUsers = async (req: Request, res: Response) => {
+  try {
+    res.json(await listUsers());
+  } catch (error) {
+    console.error("Error in getUsers:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// PATCH /api/admin/users/:id/role
+// Body: { role }. Promotes or demotes an account; takes effect on its next request
+export const updateUserRole = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { role } = req.body ?? {};
+
+    if (!isAccountRole(role)) {
+      return res.status(400).json({
+        error: "Bad request",
+        message: `"role" must be one of: ${ACCOUNT_ROLES.join(", ")}`,
+      });
+    }
+    // Keeps at least one admin around to undo mistakes
+    if (id === currentUser(req).id && role !== "admin") {
+      return res.status(409).json({
+        error: "Conflict",
+        message: "Admins can't remove their own admin role",
+      });
+    }
+
+    const user = await setUserRole(id!, role);
+    if (!user) {
+      return res.status(404).json({
+        error: "Not found",
+        message: `No user with id "${id}"`,
+      });
+    }
+
+    res.json(user);
+  } catch (error) {
+    console.error("Error in updateUserRole:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
@@ -0,0 +1,126 @@
+import { Request, Response } from "express";
+import {
+  DEFAULT_REPORT_DAYS,
+  issueApiKey,
+  listApiKeys,
+  MAX_REPORT_DAYS,
+  revokeApiKey,
+  updateApiKeyLimits,
+  usageReport,
+} from "../lib/apiKeys";
+import { ValidationError } from "../lib/errors";
+import { currentUser } from "../middleware/auth";
+
+// Key owners see and revoke only their own keys ("own"); admins see and
+// manage every key ("all"). The routes pick the scope.
+type KeyScope = "own" | "all";
+
+const ownerScope = (req: Request, scope: KeyScope) =>
+  scope === "own" ? currentUser(req).id : null;
+
+const keyNotFound = (res: Response, id: string | undefined) =>
+  res.status(404).json({
+    error: "Not found",
+    message: `No API key with id "${id}"`,
+  });
+
+const validationFailed = (res: Response, error: ValidationError) =>
+  res.status(error.status).json({
+    error: error.status === 409 ? "Conflict" : "Validation failed",
+    message: error.message,
+    fields: error.fields,
+  });
+
+// GET /api/keys, GET /api/admin/api-keys
+// The signed-in account's keys, or every key for an admin
+export const getApiKeys = (scope: KeyScope) => async (req: Request, res: Response) => {
+  try {
+    res.json(await listApiKeys(ownerScope(req, scope)));
+  } catch (error) {
+    console.error("Error in getApiKeys:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// GET /api/keys/:id/usage?days=30, GET /api/admin/api-keys/:id/usage?days=30
+// Requests made with the key per day and endpoint
+export const getApiKeyUsage = (scope: KeyScope) => async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { days } = req.query;
+
+    const dayCount = days === undefined ? DEFAULT_REPORT_DAYS : Number(days);
+    if (!Number.isInteger(dayCount) || dayCount < 1 || dayCount > MAX_REPORT_DAYS) {
+      return res.status(400).json({
+        error: "Bad request",
+        message: `"days" must be a whole number from 1 to ${MAX_REPORT_DAYS}`,
+      });
+    }
+
+    const report = await usageReport(id!, ownerScope(req, scope), dayCount);
+    if (!report) return keyNotFound(res, id);
+
+    res.json(report);
+  } catch (error) {
+    console.error("Error in getApiKeyUsage:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// DELETE /api/keys/:id, DELETE /api/admin/api-keys/:id
+// Revokes the key; its usage history is kept
+export const removeApiKey = (scope: KeyScope) => async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const key = await revokeApiKey(id!, ownerScope(req, scope));
+    if (!key) return keyNotFound(res, id);
+
+    res.json(key);
+  } catch (error) {
+    console.error("Error in removeApiKey:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// POST /api/admin/api-keys
+// Body: { ownerEmail, name, rateLimitPerMinute?, dailyQuota? }
+export const postApiKey = async (req: Request, res: Response) => {
+  try {
+    res.status(201).json(await issueApiKey(req.body ?? {}));
+  } catch (error) {
+    if (error instanceof ValidationError) return validationFailed(res, error);
+    console.error("Error in postApiKey:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// PATCH /api/admin/api-keys/:id
+// Body: { rateLimitPerMinute?, dailyQuota? }. Applies from the next request
+export const patchApiKey = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const key = await updateApiKeyLimits(id!, req.body ?? {});
+    if (!key) return keyNotFound(res, id);
+
+    res.json(key);
+  } catch (error) {
+    if (error instanceof ValidationError) return validationFailed(res, error);
+    console.error("Error in patchApiKey:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
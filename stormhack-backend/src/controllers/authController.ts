@@ -0,0 +1,63 @@
+import { Request, Response } from "express";
+import { AuthError, authenticateUser, issueToken, registerUser } from "../lib/auth";
+import { ValidationError } from "../lib/errors";
+import { currentUser } from "../middleware/auth";
+
+const authErrorResponse = (res: Response, error: AuthError) =>
+  res.status(error.status).json({
+    error: error.status === 503 ? "Service unavailable" : "Unauthorized",
+    message: error.message,
+  });
+
+// POST /api/auth/register
+// Body: { email, name, password }. Creates a user account and signs it in
+export const register = async (req: Request, res: Response) => {
+  try {
+    const user = await registerUser(req.body ?? {});
+    res.status(201).json({ ...issueToken(user), user });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(error.status).json({
+        error: error.status === 409 ? "Conflict" : "Validation failed",
+        message: error.message,
+        fields: error.fields,
+      });
+    }
+    if (error instanceof AuthError) return authErrorResponse(res, error);
+    console.error("Error in register:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// POST /api/auth/login
+// Body: { email, password }. Returns a bearer token for the account
+export const login = async (req: Request, res: Response) => {
+  try {
+    const { email, password } = req.body ?? {};
+    const user = await authenticateUser(email, password);
+    if (!user) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "Wrong email or password",
+      });
+    }
+
+    res.json({ ...issueToken(user), user });
+  } catch (error) {
+    if (error instanceof AuthError) return authErrorResponse(res, error);
+    console.error("Error in login:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// GET /api/auth/me
+// The signed-in account
+export const getMe = (req: Request, res: Response) => {
+  res.json(currentUser(req));
+};
@@ -0,0 +1,190 @@
+import { Request, Response } from "express";
+import {
+  createDisease,
+  createDiseaseRelation,
+  createIngredient,
+  createPair,
+  createSource,
+  CurationBody,
+  deleteDisease,
+  deleteDiseaseRelation,
+  deleteIngredient,
+  deletePair,
+  deleteSource,
+  updateDisease,
+  updateDiseaseRelation,
+  updateIngredient,
+  updatePair,
+  updateSource,
+} from "../lib/curation";
+import { ValidationError } from "../lib/errors";
+import { ContradictionError } from "../lib/contradictions";
+import { currentActor } from "../middleware/auth";
+
+// Every curation endpoint answers the same way: the row (201 on create), 404
+// when the id doesn't exist, 400/409 with per-field messages when the input
+// is invalid or clashes with existing data, and 409 for a contradiction.
+// Changes are recorded under the signed-in curator.
+const curationHandler =
+  (
+    name: string,
+    entity: string,
+    write: (id: string, body: CurationBody, actor: string) => Promise<unknown>,
+    successStatus = 200
+  ) =>
+  async (req: Request, res: Response) => {
+    try {
+      const { id = "" } = req.params;
+      const row = await write(id, req.body ?? {}, currentActor(req));
+      if (!row) {
+        return res.status(404).json({
+          error: "Not found",
+          message: `No ${entity} with id "${id}"`,
+        });
+      }
+      res.status(successStatus).json(row);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(error.status).json({
+          error: error.status === 409 ? "Conflict" : "Validation failed",
+          message: error.message,
+          fields: error.fields,
+        });
+      }
+      if (error instanceof ContradictionError) {
+        return res.status(409).json({ error: "Contradiction", message: error.message });
+      }
+      console.error(`Error in ${name}:`, error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+// POST /api/admin/ingredients
+export const postIngredient = curationHandler(
+  "postIngredient",
+  "ingredient",
+  (_id, body, actor) => createIngredient(body, actor),
+  201
+);
+
+// PATCH /api/admin/ingredients/:id
+export const patchIngredient = curationHandler("patchIngredient", "ingredient", updateIngredient);
+
+// DELETE /api/admin/ingredients/:id
+export const removeIngredient = curationHandler(
+  "removeIngredient",
+  "ingredient",
+  (id, _body, actor) =>
+    deleteIngredient(id, actor)
+);
+
+// POST /api/admin/diseases
+export const postDisease = curationHandler(
+  "postDisease",
+  "disease",
+  (_id, body, actor) => createDisease(body, actor),
+  201
+);
+
+// PATCH /api/admin/diseases/:id
+export const patchDisease = curationHandler("patchDisease", "disease", updateDisease);
+
+// DELETE /api/admin/diseases/:id
+export const removeDisease = curationHandler(
+  "removeDisease",
+  "disease",
+  (id, _body, actor) =>
+    deleteDisease(id, actor)
+);
+
+// POST /api/admin/interactions
+export const postInteraction = curationHandler(
+  "postInteraction",
+  "interaction",
+  (_id, body, actor) => createPair("interaction", body, actor),
+  201
+);
+
+// PATCH /api/admin/interactions/:id
+export const patchInteraction = curationHandler(
+  "patchInteraction",
+  "interaction",
+  (id, body, actor) =>
+    updatePair("interaction", id, body, actor)
+);
+
+// DELETE /api/admin/interactions/:id
+export const removeInteraction = curationHandler(
+  "removeInteraction",
+  "interaction",
+  (id, _body, actor) =>
+    deletePair("interaction", id, actor)
+);
+
+// POST /api/admin/benefits
+export const postBenefit = curationHandler(
+  "postBenefit",
+  "benefit",
+  (_id, body, actor) => createPair("benefit", body, actor),
+  201
+);
+
+// PATCH /api/admin/benefits/:id
+export const patchBenefit = curationHandler(
+  "patchBenefit",
+  "benefit",
+  (id, body, actor) =>
+    updatePair("benefit", id, body, actor)
+);
+
+// DELETE /api/admin/benefits/:id
+export const removeBenefit = curationHandler(
+  "removeBenefit",
+  "benefit",
+  (id, _body, actor) =>
+    deletePair("benefit", id, actor)
+);
+
+// POST /api/admin/disease-relations
+export const postDiseaseRelation = curationHandler(
+  "postDiseaseRelation",
+  "disease relation",
+  (_id, body, actor) => createDiseaseRelation(body, actor),
+  201
+);
+
+// PATCH /api/admin/disease-relations/:id
+export const patchDiseaseRelation = curationHandler(
+  "patchDiseaseRelation",
+  "disease relation",
+  updateDiseaseRelation
+);
+
+// DELETE /api/admin/disease-relations/:id
+export const removeDiseaseRelation = curationHandler(
+  "removeDiseaseRelation",
+  "disease relation",
+  (id, _body, actor) => deleteDiseaseRelation(id, actor)
+);
+
+// POST /api/admin/sources
+export const postSource = curationHandler(
+  "postSource",
+  "source",
+  (_id, body, actor) => createSource(body, actor),
+  201
+);
+
+// PATCH /api/admin/sources/:id
+export const patchSource = curationHandler("patchSource", "source", updateSource);
+
+// DELETE /api/admin/sources/:id
+export const removeSource = curationHandler(
+  "removeSource",
+  "source",
+  (id, _body, actor) =>
+    deleteSource(id, actor)
+);
@@ -1,19 +1,71 @@
 import { Request, Response } from "express";
 import { prisma } from "../lib/prisma";
+import {
+  normalizeIngredientName,
+  resolveIngredients,
+} from "../lib/ingredientResolver";
+import { suggestNames, suggestNamesEach } from "../lib/suggestions";
+import {
+  breakdownEntry,
+  combinedScore,
+  GuideBreakdownEntry,
+  GuideConflict,
+  GuideItem,
+} from "../lib/guideScoring";
+import {
+  CONFLICT_POLICIES,
+  DEFAULT_CONFLICT_POLICY,
+  isConflictPolicy,
+  resolveConflict,
+} from "../lib/conflictPolicy";
+import { formatSource, includeSources } from "../lib/sources";
+import {
+  EVIDENCE_GRADES,
+  evidenceAtLeast,
+  isEvidenceGrade,
+} from "../lib/evidence";
+import { PUBLISHED } from "../lib/review";
 
-// POST /api/diseases/guide
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+// POST /api/diseases/guide?minEvidence=<grade>
 export const getDiseaseGuide = async (req: Request, res: Response) => {
   try {
-    const { diseases, filter } = req.body; // diseases: string[], filter: 'avoid' | 'beneficial' | 'all'
+    const { diseases, filter, ingredients } = req.body; // diseases: string[], filter: 'avoid' | 'beneficial' | 'all', ingredients?: string[]
+    const conflictPolicy = req.body.conflictPolicy ?? DEFAULT_CONFLICT_POLICY;
+    const { minEvidence } = req.query;
 
-    if (!diseases || !Array.isArray(diseases) || diseases.length === 0) {
+    if (!isStringArray(diseases) || diseases.length === 0) {
       return res.status(400).json({
         error: "Bad request",
         message:
-          'Request body must include "diseases" array with at least one disease',
+          'Request body must include "diseases" array with at least one disease name',
+      });
+    }
+
+    if (ingredients !== undefined && !isStringArray(ingredients)) {
+      return res.status(400).json({
+        error: "Bad request",
+        message: '"ingredients" must be an array of ingredient names',
+      });
+    }
+
+    if (!isConflictPolicy(conflictPolicy)) {
+      return res.status(400).json({
+        error: "Bad request",
+        message: `"conflictPolicy" must be one of: ${CONFLICT_POLICIES.join(", ")}`,
       });
     }
 
+    if (minEvidence !== undefined && !isEvidenceGrade(minEvidence)) {
+      return res.status(400).json({
+        error: "Bad request",
+        message: `"minEvidence" must be one of: ${EVIDENCE_GRADES.join(", ")}`,
+      });
+    }
+    const evidenceFilter = minEvidence ? { evidence: evidenceAtLeast(minEvidence) } : {};
+
     // Normalize disease names
     const diseaseNames = diseases.map((d) => d.toLowerCase());
 
@@ -31,23 +83,53 @@ export const getDiseaseGuide = async (req: Request, res: Response) => {
         error: "No diseases found",
         message: "None of the specified diseases exist in our database",
         requestedDiseases: diseaseNames,
+        suggestions: await suggestNames(diseaseNames),
       });
     }
 
     const diseaseIds = foundDiseases.map((d) => d.id);
 
+    // A misspelt name next to a known one still gets a guide for the known
+    // ones; each unknown name comes back with its own suggestions
+    const foundNames = new Set(foundDiseases.map((d) => d.name));
+    const unknownDiseases = await suggestNamesEach(
+      Array.from(new Set(diseaseNames.filter((name) => !foundNames.has(name)))),
+      "disease"
+    );
+
+    // Optionally narrow the guide to specific ingredients (names or aliases)
+    let ingredientFilter: { ingredientId?: { in: string[] } } = {};
+    const matchedAliases = new Map<string, string | null>();
+    const unknownIngredients: string[] = [];
+    if (ingredients && ingredients.length > 0) {
+      const resolved = await resolveIngredients(ingredients);
+      ingredients.forEach((name: string) => {
+        const match = resolved.get(normalizeIngredientName(name));
+        if (match) {
+          matchedAliases.set(match.ingredient.id, match.matchedAlias);
+        } else {
+          unknownIngredients.push(name);
+        }
+      });
+      ingredientFilter = {
+        ingredientId: { in: Array.from(matchedAliases.keys()) },
+      };
+    }
+
     // Fetch avoid relationships
     const avoidRelations = await prisma.diseaseIngredient.findMany({
       where: {
         diseaseId: { in: diseaseIds },
         type: "AVOID",
+        ...ingredientFilter,
+        ...evidenceFilter,
+        ...PUBLISHED,
       },
       include: {
         ingredient: true,
         disease: true,
-        sources: true,
+        sources: includeSources,
       },
-      orderBy: [{ severity: "desc" }, { ingredient: { name: "asc" } }],
     });
 
     // Fetch beneficial relationships
@@ -55,84 +137,102 @@ export const getDiseaseGuide = async (req: Request, res: Response) => {
       where: {
         diseaseId: { in: diseaseIds },
         type: "BENEFICIAL",
+        ...ingredientFilter,
+        ...evidenceFilter,
+        ...PUBLISHED,
       },
       include: {
         ingredient: true,
         disease: true,
-        sources: true,
+        sources: includeSources,
       },
-      orderBy: [{ severity: "desc" }, { ingredient: { name: "asc" } }],
     });
 
-    // Group by ingredient to handle multiple diseases
-    const avoidMap = new Map();
-    avoidRelations.forEach((relation) => {
-      const key = relation.ingredient.name;
-      if (!avoidMap.has(key)) {
-        avoidMap.set(key, {
-          food: relation.ingredient.name,
-          reason: relation.reason,
-          severity: relation.severity,
-          affectedDiseases: [relation.disease.name],
-          sources: relation.sources.map((s) => ({
-            label: s.label,
-            url: s.url || null,
-          })),
-        });
-      } else {
-        const existing = avoidMap.get(key);
-        existing.affectedDiseases.push(relation.disease.name);
-        // Use highest severity
-        existing.severity = Math.max(existing.severity, relation.severity);
-        // Combine reasons if different
-        if (!existing.reason.includes(relation.reason)) {
-          existing.reason += "; " + relation.reason;
-        }
-      }
-    });
+    // Group by ingredient; each item keeps a per-disease breakdown and a
+    // combined score across all the diseases that flag it
+    const groupByIngredient = (relations: typeof avoidRelations) => {
+      const byFood = new Map<
+        string,
+        { matchedAlias: string | null; breakdown: GuideBreakdownEntry[] }
+      >();
+      relations.forEach((relation) => {
+        const food = relation.ingredient.name;
+        const entry = byFood.get(food) ?? {
+          matchedAlias: matchedAliases.get(relation.ingredientId) ?? null,
+          breakdown: [],
+        };
+        byFood.set(food, entry);
+        entry.breakdown.push(
+          breakdownEntry({
+            disease: relation.disease.name,
+            diseaseType: relation.disease.type,
+            reason: relation.reason,
+            severity: relation.severity,
+            evidence: relation.evidence,
+            sources: relation.sources.map(formatSource),
+          })
+        );
+      });
 
-    const beneficialMap = new Map();
-    beneficialRelations.forEach((relation) => {
-      const key = relation.ingredient.name;
-      if (!beneficialMap.has(key)) {
-        beneficialMap.set(key, {
-          food: relation.ingredient.name,
-          reason: relation.reason,
-          severity: relation.severity,
-          affectedDiseases: [relation.disease.name],
-          sources: relation.sources.map((s) => ({
-            label: s.label,
-            url: s.url || null,
-          })),
+      const grouped = new Map<string, GuideItem>();
+      byFood.forEach(({ matchedAlias, breakdown }, food) => {
+        breakdown.sort((a, b) => b.contribution - a.contribution);
+        grouped.set(food, {
+          food,
+          matchedAlias,
+          score: combinedScore(breakdown),
+          severity: Math.max(...breakdown.map((entry) => entry.severity)),
+          affectedDiseases: breakdown.map((entry) => entry.disease),
+          breakdown,
         });
-      } else {
-        const existing = beneficialMap.get(key);
-        existing.affectedDiseases.push(relation.disease.name);
-        existing.severity = Math.max(existing.severity, relation.severity);
-        if (!existing.reason.includes(relation.reason)) {
-          existing.reason += "; " + relation.reason;
-        }
-      }
+      });
+      return grouped;
+    };
+
+    const avoidMap = groupByIngredient(avoidRelations);
+    const beneficialMap = groupByIngredient(beneficialRelations);
+
+    // Foods that help one requested disease but should be avoided for
+    // another: list the per-disease reasons side by side and settle them
+    const conflicts: GuideConflict[] = [];
+    Array.from(avoidMap.values()).forEach((avoidItem) => {
+      const { food } = avoidItem;
+      const beneficialItem = beneficialMap.get(food);
+      if (!beneficialItem) return;
+      const resolution = resolveConflict(
+        conflictPolicy,
+        avoidItem.severity,
+        beneficialItem.severity
+      );
+      conflicts.push({
+        food,
+        avoid: avoidItem.breakdown,
+        beneficial: beneficialItem.breakdown,
+        resolution,
+      });
+      if (resolution === "avoid") beneficialMap.delete(food);
+      if (resolution === "beneficial") avoidMap.delete(food);
     });
 
-    // Convert maps to arrays
-    const avoid = Array.from(avoidMap.values());
-    const beneficial = Array.from(beneficialMap.values());
+    // Highest combined score first
+    const byScore = (a: GuideItem, b: GuideItem) =>
+      b.score - a.score || a.food.localeCompare(b.food);
+    const avoid = Array.from(avoidMap.values()).sort(byScore);
+    const beneficial = Array.from(beneficialMap.values()).sort(byScore);
 
     // Apply filter
-    let response: any = {
+    const showAll = !filter || filter === "all";
+    const response = {
       diseases: foundDiseases.map((d) => d.name),
+      unknownDiseases,
+      conflictPolicy,
+      minEvidence: minEvidence ?? null,
+      conflicts,
+      ...(ingredients && ingredients.length > 0 && { unknownIngredients }),
+      ...((showAll || filter === "avoid") && { avoid }),
+      ...((showAll || filter === "beneficial") && { beneficial }),
     };
 
-    if (!filter || filter === "all") {
-      response.avoid = avoid;
-      response.beneficial = beneficial;
-    } else if (filter === "avoid") {
-      response.avoid = avoid;
-    } else if (filter === "beneficial") {
-      response.beneficial = beneficial;
-    }
-
     res.json(response);
   } catch (error) {
     console.error("Error in getDiseaseGuide:", error);
@@ -143,22 +243,66 @@ export const getDiseaseGuide = async (req: Request, res: Response) => {
   }
 };
 
-// GET /api/diseases
+const DISEASE_TYPES = ["chronic", "acute"];
+const MAX_PAGE_SIZE = 100;
+
+// GET /api/diseases?type=<chronic|acute>&q=<text>&page=1&pageSize=50
 export const getAllDiseases = async (req: Request, res: Response) => {
   try {
-    const diseases = await prisma.disease.findMany({
-      select: {
-        name: true,
-        description: true,
-        type: true, // 添加这行
-      },
-      orderBy: {
-        name: "asc",
-      },
-    });
+    const { type, q } = req.query;
+
+    if (type !== undefined && !DISEASE_TYPES.includes(String(type))) {
+      return res.status(400).json({
+        error: "Bad request",
+        message: `"type" must be one of: ${DISEASE_TYPES.join(", ")}`,
+      });
+    }
+
+    const page = Math.max(Number(req.query.page) || 1, 1);
+    const pageSize = Math.min(
+      Math.max(Number(req.query.pageSize) || 50, 1),
+      MAX_PAGE_SIZE
+    );
+
+    const where = {
+      ...(type ? { type: String(type) } : {}),
+      ...(typeof q === "string" && q.trim()
+        ? {
+            OR: [
+              { name: { contains: q.trim(), mode: "insensitive" as const } },
+              {
+                description: {
+                  contains: q.trim(),
+                  mode: "insensitive" as const,
+                },
+              },
+            ],
+          }
+        : {}),
+    };
+
+    const [total, diseases] = await Promise.all([
+      prisma.disease.count({ where }),
+      prisma.disease.findMany({
+        where,
+        select: {
+          name: true,
+          description: true,
+          type: true, // 添加这行
+        },
+        orderBy: {
+          name: "asc",
+        },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+    ]);
 
     res.json({
       count: diseases.length,
+      total,
+      page,
+      pageSize,
       diseases,
     });
   } catch (error) {
@@ -169,3 +313,74 @@ export const getAllDiseases = async (req: Request, res: Response) => {
     });
   }
 };
+
+// GET /api/diseases/:name?minEvidence=<grade>
+export const getDiseaseDetail = async (req: Request, res: Response) => {
+  try {
+    const { name } = req.params;
+    const { minEvidence } = req.query;
+
+    if (!name) {
+      return res.status(400).json({
+        error: "Bad request",
+        message: "Disease name is required",
+      });
+    }
+
+    if (minEvidence !== undefined && !isEvidenceGrade(minEvidence)) {
+      return res.status(400).json({
+        error: "Bad request",
+        message: `"minEvidence" must be one of: ${EVIDENCE_GRADES.join(", ")}`,
+      });
+    }
+
+    const disease = await prisma.disease.findUnique({
+      where: { name: name.toLowerCase() },
+      include: {
+        ingredients: {
+          where: {
+            ...PUBLISHED,
+            ...(minEvidence && { evidence: evidenceAtLeast(minEvidence) }),
+          },
+          include: { ingredient: true, sources: includeSources },
+          orderBy: [{ severity: "desc" }, { ingredient: { name: "asc" } }],
+        },
+      },
+    });
+
+    if (!disease) {
+      return res.status(404).json({
+        error: "Disease not found",
+        message: `Disease "${name}" does not exist in our database`,
+        suggestions: await suggestNames([name]),
+      });
+    }
+
+    const format = (relation: (typeof disease.ingredients)[number]) => ({
+      food: relation.ingredient.name,
+      category: relation.ingredient.category,
+      reason: relation.reason,
+      severity: relation.severity,
+      evidence: relation.evidence,
+      sources: relation.sources.map(formatSource),
+    });
+
+    res.json({
+      name: disease.name,
+      description: disease.description,
+      type: disease.type,
+      beneficial: disease.ingredients
+        .filter((relation) => relation.type === "BENEFICIAL")
+        .map(format),
+      avoid: disease.ingredients
+        .filter((relation) => relation.type === "AVOID")
+        .map(format),
+    });
+  } catch (error) {
+    console.error("Error in getDiseaseDetail:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
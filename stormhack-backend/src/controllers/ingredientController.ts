@@ -1,5 +1,18 @@
 import { Request, Response } from "express";
 import { prisma } from "../lib/prisma";
+import {
+  normalizeIngredientName,
+  resolveIngredient,
+} from "../lib/ingredientResolver";
+import { rankFuzzy } from "../lib/fuzzySearch";
+import { suggestNames } from "../lib/suggestions";
+import { formatSource, includeSources } from "../lib/sources";
+import {
+  EVIDENCE_GRADES,
+  evidenceAtLeast,
+  isEvidenceGrade,
+} from "../lib/evidence";
+import { PUBLISHED } from "../lib/review";
 
 // GET /api/ingredients/:name/compatibility
 export const getIngredientCompatibility = async (
@@ -8,7 +21,7 @@ export const getIngredientCompatibility = async (
 ) => {
   try {
     const { name } = req.params;
-    const { filter } = req.query; // 'avoid', 'beneficial', or 'all' (default)
+    const { filter, minEvidence } = req.query; // filter: 'avoid', 'beneficial', or 'all' (default)
 
     if (!name) {
       return res.status(400).json({
@@ -16,18 +29,27 @@ export const getIngredientCompatibility = async (
         message: "Ingredient name is required",
       });
     }
-    // Find the ingredient
-    const ingredient = await prisma.ingredient.findUnique({
-      where: { name: name.toLowerCase() },
-    });
 
-    if (!ingredient) {
+    if (minEvidence !== undefined && !isEvidenceGrade(minEvidence)) {
+      return res.status(400).json({
+        error: "Bad request",
+        message: `"minEvidence" must be one of: ${EVIDENCE_GRADES.join(", ")}`,
+      });
+    }
+    const evidenceFilter = minEvidence ? { evidence: evidenceAtLeast(minEvidence) } : {};
+    // Find the ingredient (by canonical name or alias)
+    const resolved = await resolveIngredient(name);
+
+    if (!resolved) {
       return res.status(404).json({
         error: "Ingredient not found",
         message: `Ingredient "${name}" does not exist in our database`,
+        suggestions: await suggestNames([name]),
       });
     }
 
+    const { ingredient, matchedAlias } = resolved;
+
     // Fetch avoid interactions
     const avoidInteractions = await prisma.ingredientInteraction.findMany({
       where: {
@@ -35,11 +57,13 @@ export const getIngredientCompatibility = async (
           { ingredientAId: ingredient.id },
           { ingredientBId: ingredient.id },
         ],
+        ...evidenceFilter,
+        ...PUBLISHED,
       },
       include: {
         ingredientA: true,
         ingredientB: true,
-        sources: true,
+        sources: includeSources,
       },
       orderBy: [{ severity: "desc" }, { ingredientB: { name: "asc" } }],
     });
@@ -51,11 +75,13 @@ export const getIngredientCompatibility = async (
           { ingredientAId: ingredient.id },
           { ingredientBId: ingredient.id },
         ],
+        ...evidenceFilter,
+        ...PUBLISHED,
       },
       include: {
         ingredientA: true,
         ingredientB: true,
-        sources: true,
+        sources: includeSources,
       },
       orderBy: [{ severity: "desc" }, { ingredientB: { name: "asc" } }],
     });
@@ -71,10 +97,8 @@ export const getIngredientCompatibility = async (
         food: otherIngredient.name,
         reason: interaction.reason,
         severity: interaction.severity,
-        sources: interaction.sources.map((s) => ({
-          label: s.label,
-          url: s.url || null,
-        })),
+        evidence: interaction.evidence,
+        sources: interaction.sources.map(formatSource),
       };
     });
 
@@ -89,26 +113,57 @@ export const getIngredientCompatibility = async (
         food: otherIngredient.name,
         reason: pairing.reason,
         severity: pairing.severity,
-        sources: pairing.sources.map((s) => ({
-          label: s.label,
-          url: s.url || null,
-        })),
+        evidence: pairing.evidence,
+        sources: pairing.sources.map(formatSource),
       };
     });
 
+    // Reverse lookup: conditions this food helps or should be avoided for
+    const diseaseRelations = await prisma.diseaseIngredient.findMany({
+      where: { ingredientId: ingredient.id, ...evidenceFilter, ...PUBLISHED },
+      include: {
+        disease: true,
+        sources: includeSources,
+      },
+      orderBy: [{ severity: "desc" }, { disease: { name: "asc" } }],
+    });
+
+    const formatCondition = (relation: (typeof diseaseRelations)[number]) => ({
+      disease: relation.disease.name,
+      diseaseType: relation.disease.type,
+      reason: relation.reason,
+      severity: relation.severity,
+      evidence: relation.evidence,
+      sources: relation.sources.map(formatSource),
+    });
+
+    const conditionsAvoid = diseaseRelations
+      .filter((relation) => relation.type === "AVOID")
+      .map(formatCondition);
+    const conditionsBeneficial = diseaseRelations
+      .filter((relation) => relation.type === "BENEFICIAL")
+      .map(formatCondition);
+
     // Apply filter
     let response: any = {
       ingredient: ingredient.name,
       category: ingredient.category,
+      matchedAlias,
+      minEvidence: minEvidence ?? null,
+      conditions: {},
     };
 
     if (!filter || filter === "all") {
       response.avoid = avoid;
       response.beneficial = beneficial;
+      response.conditions.avoid = conditionsAvoid;
+      response.conditions.beneficial = conditionsBeneficial;
     } else if (filter === "avoid") {
       response.avoid = avoid;
+      response.conditions.avoid = conditionsAvoid;
     } else if (filter === "beneficial") {
       response.beneficial = beneficial;
+      response.conditions.beneficial = conditionsBeneficial;
     }
 
     res.json(response);
@@ -121,7 +176,7 @@ export const getIngredientCompatibility = async (
   }
 };
 
-// GET /api/ingredients/search?q=query
+// GET /api/ingredients/search?q=query&limit=10
 export const searchIngredients = async (req: Request, res: Response) => {
   try {
     const { q } = req.query;
@@ -133,25 +188,52 @@ export const searchIngredients = async (req: Request, res: Response) => {
       });
     }
 
+    const query = normalizeIngredientName(q);
+    const limit = Math.min(Math.max(Number(req.query.limit) || 10, 1), 50);
+
     const ingredients = await prisma.ingredient.findMany({
-      where: {
-        name: {
-          contains: q.toLowerCase(),
+      include: {
+        aliases: true,
+        _count: {
+          select: {
+            avoidsWith: { where: PUBLISHED },
+            avoidedBy: { where: PUBLISHED },
+            beneficialWith: { where: PUBLISHED },
+            beneficialFor: { where: PUBLISHED },
+            diseaseRelations: { where: PUBLISHED },
+          },
         },
       },
-      select: {
-        name: true,
-        category: true,
-      },
-      take: 10,
-      orderBy: {
-        name: "asc",
-      },
     });
 
+    // Score the canonical name and every alias; popularity is how many
+    // published relations an ingredient takes part in
+    const ranked = rankFuzzy(
+      query,
+      ingredients.map((ingredient) => ({
+        item: ingredient,
+        name: ingredient.name,
+        aliases: ingredient.aliases.map((a) => a.alias),
+        popularity: Object.values(ingredient._count).reduce(
+          (sum, count) => sum + count,
+          0
+        ),
+      })),
+      limit
+    );
+
+    const results = ranked.map((entry) => ({
+      name: entry.name,
+      category: entry.item.category,
+      matchedAlias: entry.matchedAlias,
+      score: entry.match.score,
+      // Span is relative to matchedAlias when set, otherwise to name
+      matchedSpan: entry.match.span,
+    }));
+
     res.json({
       query: q,
-      results: ingredients,
+      results,
     });
   } catch (error) {
     console.error("Error in searchIngredients:", error);
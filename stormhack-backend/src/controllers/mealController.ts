@@ -0,0 +1,208 @@
+import { Request, Response } from "express";
+import { prisma } from "../lib/prisma";
+import {
+  normalizeIngredientName,
+  resolveIngredients,
+} from "../lib/ingredientResolver";
+import {
+  findPairRelations,
+  MealReason,
+  mealVerdict,
+} from "../lib/mealAnalysis";
+import { suggestNames } from "../lib/suggestions";
+import { formatSource, includeSources } from "../lib/sources";
+import { PUBLISHED } from "../lib/review";
+
+const isNonEmptyStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((v) => typeof v === "string");
+
+// Resolve requested names/aliases; unknown ones are reported, not fatal
+const resolveMealIngredients = async (ingredients: string[]) => {
+  const resolved = await resolveIngredients(ingredients);
+  const found = new Map<string, { name: string; matchedAlias: string | null }>();
+  const unknownIngredients: string[] = [];
+  ingredients.forEach((name) => {
+    const match = resolved.get(normalizeIngredientName(name));
+    if (match) {
+      found.set(match.ingredient.id, {
+        name: match.ingredient.name,
+        matchedAlias: match.matchedAlias,
+      });
+    } else {
+      unknownIngredients.push(name);
+    }
+  });
+  return { found, unknownIngredients };
+};
+
+// POST /api/meals/analyze
+export const analyzeMeal = async (req: Request, res: Response) => {
+  try {
+    const { ingredients } = req.body; // ingredients: string[] (names or aliases)
+
+    if (!isNonEmptyStringArray(ingredients)) {
+      return res.status(400).json({
+        error: "Bad request",
+        message:
+          'Request body must include "ingredients" array with at least one ingredient name',
+      });
+    }
+
+    const { found, unknownIngredients } = await resolveMealIngredients(
+      ingredients
+    );
+
+    const { conflicts, benefits } = await findPairRelations(
+      Array.from(found.keys())
+    );
+
+    res.json({
+      ingredients: Array.from(found.values()),
+      unknownIngredients,
+      verdict: mealVerdict(conflicts, benefits),
+      // Conflicts are sorted by severity, so the first one is the worst
+      worstConflict: conflicts[0] ?? null,
+      conflicts,
+      benefits,
+    });
+  } catch (error) {
+    console.error("Error in analyzeMeal:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// POST /api/meals/check
+export const checkMealForDiseases = async (req: Request, res: Response) => {
+  try {
+    const { ingredients, diseases } = req.body; // ingredients: string[], diseases: string[]
+
+    if (!isNonEmptyStringArray(ingredients) || !isNonEmptyStringArray(diseases)) {
+      return res.status(400).json({
+        error: "Bad request",
+        message:
+          'Request body must include non-empty "ingredients" and "diseases" arrays',
+      });
+    }
+
+    const diseaseNames = diseases.map((d) => d.toLowerCase());
+    const foundDiseases = await prisma.disease.findMany({
+      where: { name: { in: diseaseNames } },
+    });
+
+    if (foundDiseases.length === 0) {
+      return res.status(404).json({
+        error: "No diseases found",
+        message: "None of the specified diseases exist in our database",
+        requestedDiseases: diseaseNames,
+        suggestions: await suggestNames(diseaseNames),
+      });
+    }
+
+    const { found, unknownIngredients } = await resolveMealIngredients(
+      ingredients
+    );
+    const ingredientIds = Array.from(found.keys());
+
+    const [pairs, diseaseRelations] = await Promise.all([
+      findPairRelations(ingredientIds),
+      prisma.diseaseIngredient.findMany({
+        where: {
+          diseaseId: { in: foundDiseases.map((d) => d.id) },
+          ingredientId: { in: ingredientIds },
+          ...PUBLISHED,
+        },
+        include: { disease: true, ingredient: true, sources: includeSources },
+        orderBy: { severity: "desc" },
+      }),
+    ]);
+
+    // Collect, per ingredient, every reason it is good or bad in this meal
+    const reasons = new Map<string, MealReason[]>();
+    found.forEach(({ name }) => reasons.set(name, []));
+
+    diseaseRelations.forEach((relation) => {
+      reasons.get(relation.ingredient.name)?.push({
+        type: relation.type === "AVOID" ? "avoid" : "beneficial",
+        cause: { kind: "disease", name: relation.disease.name },
+        reason: relation.reason,
+        severity: relation.severity,
+        evidence: relation.evidence,
+        sources: relation.sources.map(formatSource),
+      });
+    });
+
+    const addPairReasons = (
+      relations: typeof pairs.conflicts,
+      type: MealReason["type"]
+    ) => {
+      relations.forEach(({ foods: [a, b], reason, severity, evidence, sources }) => {
+        reasons.get(a)?.push({
+          type,
+          cause: { kind: "ingredient", name: b },
+          reason,
+          severity,
+          evidence,
+          sources,
+        });
+        reasons.get(b)?.push({
+          type,
+          cause: { kind: "ingredient", name: a },
+          reason,
+          severity,
+          evidence,
+          sources,
+        });
+      });
+    };
+    addPairReasons(pairs.conflicts, "avoid");
+    addPairReasons(pairs.benefits, "beneficial");
+
+    const items = Array.from(found.values()).map(({ name, matchedAlias }) => {
+      const itemReasons = (reasons.get(name) ?? []).sort(
+        (a, b) => b.severity - a.severity
+      );
+      const avoid = itemReasons.filter((r) => r.type === "avoid");
+      const beneficial = itemReasons.filter((r) => r.type === "beneficial");
+      const verdict = mealVerdict(avoid, beneficial);
+      return {
+        name,
+        matchedAlias,
+        verdict,
+        // The strongest reason behind the verdict (null when neutral)
+        causedBy:
+          verdict === "neutral" ? null : (avoid[0] ?? beneficial[0])!.cause,
+        reasons: itemReasons,
+      };
+    });
+
+    const allAvoid = [
+      ...pairs.conflicts,
+      ...diseaseRelations.filter((r) => r.type === "AVOID"),
+    ];
+    const allBeneficial = [
+      ...pairs.benefits,
+      ...diseaseRelations.filter((r) => r.type === "BENEFICIAL"),
+    ];
+
+    res.json({
+      diseases: foundDiseases.map((d) => d.name),
+      unknownDiseases: diseaseNames.filter(
+        (name) => !foundDiseases.some((d) => d.name === name)
+      ),
+      unknownIngredients,
+      verdict: mealVerdict(allAvoid, allBeneficial),
+      items,
+    });
+  } catch (error) {
+    console.error("Error in checkMealForDiseases:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
@@ -4,8 +4,14 @@ import dotenv from "dotenv";
 import { prisma } from "./lib/prisma";
 import ingredientRoutes from "./routes/ingredientRoutes";
 import diseaseRoutes from "./routes/diseaseRoutes";
+import mealRoutes from "./routes/mealRoutes";
 import voiceRouter from "./routes/voice";
 import aiRoutes from "./routes/ai";
+import adminRoutes from "./routes/adminRoutes";
+import authRoutes from "./routes/authRoutes";
+import apiKeyRoutes from "./routes/apiKeyRoutes";
+import { authenticate } from "./middleware/auth";
+import { meterApiKey } from "./middleware/apiKeys";
 
 dotenv.config();
 
@@ -15,6 +21,10 @@ const PORT = process.env.PORT || 3000;
 // Middleware
 app.use(cors());
 app.use(express.json());
+// Sets req.auth: the signed-in account, or an anonymous reader
+app.use(authenticate);
+// Requests with an X-API-Key are held to that key's rate limit and daily quota
+app.use(meterApiKey);
 
 // Health check endpoint
 app.get("/api/health", (req: Request, res: Response) => {
@@ -43,10 +53,14 @@ app.get("/api/db-test", async (req: Request, res: Response) => {
 });
 
 // API Routes
+app.use("/api/auth", authRoutes);
+app.use("/api/keys", apiKeyRoutes);
 app.use("/api/ingredients", ingredientRoutes);
 app.use("/api/diseases", diseaseRoutes);
+app.use("/api/meals", mealRoutes);
 app.use("/api/voice", voiceRouter);
 app.use("/api/ai", aiRoutes);
+app.use("/api/admin", adminRoutes);
 
 // 404 handler
 app.use((req: Request, res: Response) => {
@@ -73,10 +87,34 @@ app.listen(PORT, () => {
   console.log(`📝 API Endpoints:`);
   console.log(`   GET  /api/health`);
   console.log(`   GET  /api/db-test`);
+  console.log(`   POST /api/auth/register`);
+  console.log(`   POST /api/auth/login`);
+  console.log(`   GET  /api/auth/me (user)`);
+  console.log(`   GET  /api/keys (user)`);
+  console.log(`   GET  /api/keys/:id/usage?days=30 (user)`);
+  console.log(`   DELETE /api/keys/:id (user)`);
   console.log(`   GET  /api/ingredients/search?q=<query>`);
   console.log(
     `   GET  /api/ingredients/:name/compatibility?filter=<all|avoid|beneficial>`
   );
   console.log(`   POST /api/diseases/guide`);
-  console.log(`   GET  /api/diseases`);
+  console.log(`   GET  /api/diseases?type=<chronic|acute>&q=<query>&page=1`);
+  console.log(`   GET  /api/diseases/:name`);
+  console.log(`   POST /api/meals/analyze`);
+  console.log(`   POST /api/meals/check`);
+  console.log(`   GET  /api/admin/integrity/contradictions (curator)`);
+  console.log(`   GET  /api/admin/integrity/links (curator)`);
+  console.log(`   GET  /api/admin/export (admin)`);
+  console.log(`   GET  /api/admin/review?status=<status>&kind=<kind> (curator)`);
+  console.log(`   PATCH /api/admin/review/:kind/:id (curator)`);
+  console.log(`   GET  /api/admin/history/:entity/:id (curator)`);
+  console.log(`   POST /api/admin/history/:entity/:id/revert (curator)`);
+  console.log(`   GET  /api/admin/users (admin)`);
+  console.log(`   PATCH /api/admin/users/:id/role (admin)`);
+  console.log(`   GET|POST /api/admin/api-keys (admin)`);
+  console.log(`   PATCH|DELETE /api/admin/api-keys/:id (admin)`);
+  console.log(`   GET  /api/admin/api-keys/:id/usage?days=30 (admin)`);
+  console.log(
+    `   POST|PATCH|DELETE /api/admin/{ingredients|diseases|interactions|benefits|disease-relations|sources} (curator)`
+  );
 });
@@ -0,0 +1,251 @@
+import { createHash, randomBytes } from "crypto";
+import { ApiKey, Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { FieldErrors, ValidationError } from "./errors";
+import { normalizeEmail } from "./auth";
+
+// Developer API keys for partner tools. An admin issues a key to a registered
+// account; requests that send it in `X-API-Key` are held to the key's
+// per-minute rate limit and daily quota (src/middleware/apiKeys.ts) and
+// counted per UTC day and endpoint, so owners can see their usage. Only the
+// sha256 of a key is stored: it's shown once, when issued, and a lost key is
+// revoked and replaced rather than recovered.
+
+export const KEY_PREFIX = "shk_";
+export const DEFAULT_RATE_LIMIT = 60; // requests per minute
+export const DEFAULT_DAILY_QUOTA = 1000; // requests per UTC day
+
+// Highest value an admin can set for each limit
+const MAX_LIMITS = {
+  rateLimitPerMinute: 6000,
+  dailyQuota: 1_000_000,
+} as const;
+
+type LimitField = keyof typeof MAX_LIMITS;
+
+export const DEFAULT_REPORT_DAYS = 30;
+export const MAX_REPORT_DAYS = 90;
+
+export const hashApiKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+// "YYYY-MM-DD" in UTC, the day usage is counted under
+export const utcDay = (date = new Date()) => date.toISOString().slice(0, 10);
+
+// A key as the API shows it, without its hash
+export type ApiKeyInfo = Omit<ApiKey, "keyHash">;
+
+const toInfo = ({ keyHash: _hash, ...key }: ApiKey): ApiKeyInfo => key;
+
+type ApiKeyBody = Record<string, unknown>;
+
+// Whole numbers from 1 to the field's maximum; missing fields are left out
+const parseLimits = (body: ApiKeyBody, errors: FieldErrors) => {
+  const limits: Partial<Record<LimitField, number>> = {};
+  (Object.keys(MAX_LIMITS) as LimitField[]).forEach((field) => {
+    const value = body[field];
+    if (value === undefined) return;
+    const max = MAX_LIMITS[field];
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 1 || value > max) {
+      errors[field] = `must be a whole number from 1 to ${max}`;
+      return;
+    }
+    limits[field] = value;
+  });
+  return limits;
+};
+
+// Body: { ownerEmail, name, rateLimitPerMinute?, dailyQuota? }. Returns the
+// key itself along with its row; this is the only time the key is available.
+export const issueApiKey = async (body: ApiKeyBody) => {
+  const { ownerEmail, name } = body;
+  const errors: FieldErrors = {};
+  if (typeof name !== "string" || !name.trim()) {
+    errors.name = "is required";
+  }
+  if (typeof ownerEmail !== "string" || !ownerEmail.trim()) {
+    errors.ownerEmail = "is required";
+  }
+  const limits = parseLimits(body, errors);
+  if (Object.keys(errors).length > 0) throw new ValidationError(errors);
+
+  const owner = await prisma.user.findUnique({
+    where: { email: normalizeEmail(ownerEmail as string) },
+  });
+  if (!owner) {
+    throw new ValidationError({ ownerEmail: "no account with this email" });
+  }
+
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const row = await prisma.apiKey.create({
+    data: {
+      name: (name as string).trim(),
+      prefix: key.slice(0, KEY_PREFIX.length + 6),
+      keyHash: hashApiKey(key),
+      ownerId: owner.id,
+      rateLimitPerMinute: DEFAULT_RATE_LIMIT,
+      dailyQuota: DEFAULT_DAILY_QUOTA,
+      ...limits,
+    },
+  });
+  return { key, apiKey: toInfo(row) };
+};
+
+// Body: { rateLimitPerMinute?, dailyQuota? }. Returns null if there's no such key
+export const updateApiKeyLimits = async (id: string, body: ApiKeyBody) => {
+  const errors: FieldErrors = {};
+  const limits = parseLimits(body, errors);
+  if (Object.keys(limits).length === 0 && Object.keys(errors).length === 0) {
+    errors.rateLimitPerMinute = "or dailyQuota is required";
+  }
+  if (Object.keys(errors).length > 0) throw new ValidationError(errors);
+
+  if (!(await prisma.apiKey.findUnique({ where: { id } }))) return null;
+  return toInfo(await prisma.apiKey.update({ where: { id }, data: limits }));
+};
+
+// `ownerId` restricts the lookup to that account's keys; null means any key
+const findKey = (id: string, ownerId: string | null) =>
+  prisma.apiKey.findFirst({ where: { id, ...(ownerId && { ownerId }) } });
+
+// Stops the key working at once. Revoking twice keeps the first date.
+// Returns null if there's no such key (or it isn't the owner's)
+export const revokeApiKey = async (id: string, ownerId: string | null) => {
+  const key = await findKey(id, ownerId);
+  if (!key) return null;
+  if (key.revokedAt) return toInfo(key);
+  return toInfo(
+    await prisma.apiKey.update({ where: { id }, data: { revokedAt: new Date() } })
+  );
+};
+
+// One account's keys, or every key with its owner when `ownerId` is null
+export const listApiKeys = async (ownerId: string | null) => {
+  const keys = await prisma.apiKey.findMany({
+    where: ownerId ? { ownerId } : {},
+    include: { owner: { select: { id: true, email: true, name: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+  return {
+    count: keys.length,
+    keys: keys.map(({ owner, ...key }) => ({
+      ...toInfo(key),
+      ...(ownerId === null && { owner }),
+    })),
+  };
+};
+
+// ==================== METERING ====================
+
+// The live key for a value sent in X-API-Key, or null if it's unknown or revoked
+export const findActiveKey = (key: string) =>
+  prisma.apiKey.findFirst({ where: { keyHash: hashApiKey(key), revokedAt: null } });
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
+// Takes one request from today's quota before the request runs. The counter
+// is incremented and read back in one statement, so concurrent requests can't
+// all see the same count and overshoot the quota; a request that went over
+// gives its slot back. Returns the requests used today including this one, or
+// null when the quota is spent.
+export const reserveQuota = async (key: Pick<ApiKey, "id" | "dailyQuota">) => {
+  const day = utcDay();
+  const where = { apiKeyId_day: { apiKeyId: key.id, day } };
+  const reserve = () =>
+    prisma.apiKeyDailyCount.upsert({
+      where,
+      create: { apiKeyId: key.id, day, count: 1 },
+      update: { count: { increment: 1 } },
+    });
+
+  let counter;
+  try {
+    counter = await reserve();
+  } catch (error) {
+    // Two first requests of the day racing to create the counter
+    if (!isUniqueViolation(error)) throw error;
+    counter = await reserve();
+  }
+  if (counter.count <= key.dailyQuota) return counter.count;
+
+  await prisma.apiKeyDailyCount.update({ where, data: { count: { decrement: 1 } } });
+  return null;
+};
+
+export const recordUsage = async (apiKeyId: string, endpoint: string) => {
+  const day = utcDay();
+  try {
+    await prisma.$transaction([
+      prisma.apiKeyUsage.upsert({
+        where: { apiKeyId_day_endpoint: { apiKeyId, day, endpoint } },
+        create: { apiKeyId, day, endpoint, count: 1 },
+        update: { count: { increment: 1 } },
+      }),
+      prisma.apiKey.update({ where: { id: apiKeyId }, data: { lastUsedAt: new Date() } }),
+    ]);
+  } catch (error) {
+    // Two first requests of the day racing to create the same counter
+    if (isUniqueViolation(error)) {
+      await prisma.apiKeyUsage.update({
+        where: { apiKeyId_day_endpoint: { apiKeyId, day, endpoint } },
+        data: { count: { increment: 1 } },
+      });
+      return;
+    }
+    throw error;
+  }
+};
+
+// Requests made with one key over the last `days` UTC days (today included),
+// per day and per endpoint. Returns null if there's no such key (or it isn't
+// the owner's).
+export const usageReport = async (
+  id: string,
+  ownerId: string | null,
+  days = DEFAULT_REPORT_DAYS
+) => {
+  const key = await findKey(id, ownerId);
+  if (!key) return null;
+
+  const today = utcDay();
+  const from = utcDay(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+  const [rows, counter] = await Promise.all([
+    prisma.apiKeyUsage.findMany({
+      where: { apiKeyId: id, day: { gte: from } },
+      orderBy: [{ day: "asc" }, { endpoint: "asc" }],
+    }),
+    prisma.apiKeyDailyCount.findUnique({
+      where: { apiKeyId_day: { apiKeyId: id, day: today } },
+    }),
+  ]);
+
+  type DayUsage = { day: string; total: number; endpoints: Record<string, number> };
+  const byDay = new Map<string, DayUsage>();
+  const byEndpoint = new Map<string, number>();
+  rows.forEach(({ day, endpoint, count }) => {
+    const entry = byDay.get(day) ?? { day, total: 0, endpoints: {} };
+    entry.total += count;
+    entry.endpoints[endpoint] = count;
+    byDay.set(day, entry);
+    byEndpoint.set(endpoint, (byEndpoint.get(endpoint) ?? 0) + count);
+  });
+  // What the quota has counted, including requests still running
+  const used = counter?.count ?? 0;
+
+  return {
+    key: toInfo(key),
+    today: {
+      day: today,
+      used,
+      quota: key.dailyQuota,
+      remaining: Math.max(0, key.dailyQuota - used),
+    },
+    from,
+    to: today,
+    total: rows.reduce((sum, row) => sum + row.count, 0),
+    endpoints: Array.from(byEndpoint, ([endpoint, count]) => ({ endpoint, count })).sort(
+      (a, b) => b.count - a.count || a.endpoint.localeCompare(b.endpoint)
+    ),
+    days: Array.from(byDay.values()),
+  };
+};
@@ -0,0 +1,427 @@
+import { userInfo } from "os";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { assertNoDiseaseContradiction, assertNoPairContradiction } from "./contradictions";
+import {
+  canTransition,
+  isReviewKind,
+  reviewAfterEdit,
+  reviewFields,
+  ReviewStatus,
+} from "./review";
+
+// Append-only history of knowledge base edits. Every create, update and
+// delete is stored as an AuditEntry with full before/after snapshots of the
+// row; relation snapshots include their citations ({ sourceId, snippet }), so
+// reverting a relation brings its sources back too. Entries are only ever
+// inserted: nothing here updates or deletes them.
+
+export const AUDIT_ENTITIES = [
+  "ingredient",
+  "alias",
+  "disease",
+  "interaction",
+  "benefit",
+  "disease-relation",
+  "source",
+] as const;
+
+export type AuditEntity = (typeof AUDIT_ENTITIES)[number];
+
+export const isAuditEntity = (value: unknown): value is AuditEntity =>
+  AUDIT_ENTITIES.includes(value as AuditEntity);
+
+export type AuditAction = "create" | "update" | "delete";
+
+export class AuditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuditError";
+  }
+}
+
+type Tx = Prisma.TransactionClient;
+type Snapshot = Prisma.JsonObject;
+type CitationSnapshot = { sourceId: string; snippet: string | null };
+
+// Rows as JSON, Dates as ISO strings
+const toSnapshot = (row: object) => JSON.parse(JSON.stringify(row)) as Snapshot;
+
+const byId = (ids?: string[]) => ({
+  where: ids ? { id: { in: ids } } : {},
+  orderBy: { id: "asc" as const },
+});
+
+const citations = {
+  select: { sourceId: true, snippet: true },
+  orderBy: { sourceId: "asc" as const },
+};
+
+// Splits a snapshot into the columns to write back and the relation's
+// citations. Review fields are left out: a restored version doesn't bring back
+// an approval given to it then (see reviewOnRevert).
+const restorable = (snapshot: Snapshot) => {
+  const {
+    id: _id,
+    updatedAt: _updatedAt,
+    status: _status,
+    submittedBy: _submittedBy,
+    submittedAt: _submittedAt,
+    reviewedBy: _reviewedBy,
+    reviewedAt: _reviewedAt,
+    sources,
+    ...fields
+  } = snapshot;
+  return {
+    fields: fields as Record<string, unknown>,
+    links: (sources ?? []) as CitationSnapshot[],
+  };
+};
+
+type ReviewData = Record<string, unknown> | null;
+
+type PairClaim = { ingredientAId: string; ingredientBId: string; contextDependent: boolean };
+type DiseaseClaim = {
+  diseaseId: string;
+  ingredientId: string;
+  type: string;
+  contextDependent: boolean;
+};
+
+type Table = {
+  snapshots: (tx: Tx, ids?: string[]) => Promise<Snapshot[]>;
+  restore: (tx: Tx, id: string, snapshot: Snapshot, review: ReviewData) => Promise<unknown>;
+  remove: (tx: Tx, id: string) => Promise<unknown>;
+  // Throws ContradictionError if putting the version back would contradict
+  // another active relation
+  guard?: (tx: Tx, id: string, snapshot: Snapshot) => Promise<unknown>;
+};
+
+const TABLES: Record<AuditEntity, Table> = {
+  ingredient: {
+    snapshots: async (tx, ids) =>
+      (await tx.ingredient.findMany(byId(ids))).map(toSnapshot),
+    restore: (tx, id, snapshot) => {
+      const data = restorable(snapshot).fields as Prisma.IngredientUncheckedCreateInput;
+      return tx.ingredient.upsert({ where: { id }, create: { ...data, id }, update: data });
+    },
+    remove: (tx, id) => tx.ingredient.delete({ where: { id } }),
+  },
+  alias: {
+    snapshots: async (tx, ids) =>
+      (await tx.ingredientAlias.findMany(byId(ids))).map(toSnapshot),
+    restore: (tx, id, snapshot) => {
+      const data = restorable(snapshot).fields as Prisma.IngredientAliasUncheckedCreateInput;
+      return tx.ingredientAlias.upsert({ where: { id }, create: { ...data, id }, update: data });
+    },
+    remove: (tx, id) => tx.ingredientAlias.delete({ where: { id } }),
+  },
+  disease: {
+    snapshots: async (tx, ids) =>
+      (await tx.disease.findMany(byId(ids))).map(toSnapshot),
+    restore: (tx, id, snapshot) => {
+      const data = restorable(snapshot).fields as Prisma.DiseaseUncheckedCreateInput;
+      return tx.disease.upsert({ where: { id }, create: { ...data, id }, update: data });
+    },
+    remove: (tx, id) => tx.disease.delete({ where: { id } }),
+  },
+  interaction: {
+    snapshots: async (tx, ids) =>
+      (
+        await tx.ingredientInteraction.findMany({
+          ...byId(ids),
+          include: { sources: citations },
+        })
+      ).map(toSnapshot),
+    restore: async (tx, id, snapshot, review) => {
+      const { fields, links } = restorable(snapshot);
+      const data = { ...fields, ...review } as Prisma.IngredientInteractionUncheckedCreateInput;
+      await tx.ingredientInteraction.upsert({
+        where: { id },
+        create: { ...data, id },
+        update: data,
+      });
+      await tx.interactionSource.deleteMany({ where: { interactionId: id } });
+      await tx.interactionSource.createMany({
+        data: links.map((link) => ({ ...link, interactionId: id })),
+      });
+    },
+    remove: (tx, id) => tx.ingredientInteraction.delete({ where: { id } }),
+    guard: (tx, _id, snapshot) =>
+      assertNoPairContradiction(tx, {
+        kind: "interaction",
+        ...(restorable(snapshot).fields as PairClaim),
+      }),
+  },
+  benefit: {
+    snapshots: async (tx, ids) =>
+      (
+        await tx.ingredientBenefit.findMany({
+          ...byId(ids),
+          include: { sources: citations },
+        })
+      ).map(toSnapshot),
+    restore: async (tx, id, snapshot, review) => {
+      const { fields, links } = restorable(snapshot);
+      const data = { ...fields, ...review } as Prisma.IngredientBenefitUncheckedCreateInput;
+      await tx.ingredientBenefit.upsert({
+        where: { id },
+        create: { ...data, id },
+        update: data,
+      });
+      await tx.benefitSource.deleteMany({ where: { benefitId: id } });
+      await tx.benefitSource.createMany({
+        data: links.map((link) => ({ ...link, benefitId: id })),
+      });
+    },
+    remove: (tx, id) => tx.ingredientBenefit.delete({ where: { id } }),
+    guard: (tx, _id, snapshot) =>
+      assertNoPairContradiction(tx, {
+        kind: "benefit",
+        ...(restorable(snapshot).fields as PairClaim),
+      }),
+  },
+  "disease-relation": {
+    snapshots: async (tx, ids) =>
+      (
+        await tx.diseaseIngredient.findMany({
+          ...byId(ids),
+          include: { sources: citations },
+        })
+      ).map(toSnapshot),
+    restore: async (tx, id, snapshot, review) => {
+      const { fields, links } = restorable(snapshot);
+      const data = { ...fields, ...review } as Prisma.DiseaseIngredientUncheckedCreateInput;
+      await tx.diseaseIngredient.upsert({
+        where: { id },
+        create: { ...data, id },
+        update: data,
+      });
+      await tx.diseaseIngredientSource.deleteMany({ where: { diseaseIngredientId: id } });
+      await tx.diseaseIngredientSource.createMany({
+        data: links.map((link) => ({ ...link, diseaseIngredientId: id })),
+      });
+    },
+    remove: (tx, id) => tx.diseaseIngredient.delete({ where: { id } }),
+    guard: (tx, id, snapshot) =>
+      assertNoDiseaseContradiction(tx, {
+        ...(restorable(snapshot).fields as DiseaseClaim),
+        id,
+      }),
+  },
+  source: {
+    snapshots: async (tx, ids) =>
+      (await tx.source.findMany(byId(ids))).map(toSnapshot),
+    restore: (tx, id, snapshot, review) => {
+      const data = {
+        ...restorable(snapshot).fields,
+        ...review,
+      } as Prisma.SourceUncheckedCreateInput;
+      return tx.source.upsert({ where: { id }, create: { ...data, id }, update: data });
+    },
+    remove: (tx, id) => tx.source.delete({ where: { id } }),
+  },
+};
+
+// updatedAt moves on every write, so it doesn't count as a change by itself
+const sameVersion = (a: Snapshot, b: Snapshot) => {
+  const { updatedAt: _a, ...restA } = a;
+  const { updatedAt: _b, ...restB } = b;
+  return JSON.stringify(restA) === JSON.stringify(restB);
+};
+
+type PendingEntry = {
+  entity: AuditEntity;
+  entityId: string;
+  action: AuditAction;
+  before: Snapshot | null;
+  after: Snapshot | null;
+};
+
+// One entry per row that was created, changed or deleted between two snapshots
+const diffSnapshots = (entity: AuditEntity, before: Snapshot[], after: Snapshot[]) => {
+  const entries: PendingEntry[] = [];
+  const previous = new Map(before.map((row) => [row.id as string, row]));
+  after.forEach((row) => {
+    const id = row.id as string;
+    const old = previous.get(id);
+    previous.delete(id);
+    if (!old) {
+      entries.push({ entity, entityId: id, action: "create", before: null, after: row });
+    } else if (!sameVersion(old, row)) {
+      entries.push({ entity, entityId: id, action: "update", before: old, after: row });
+    }
+  });
+  previous.forEach((row, id) =>
+    entries.push({ entity, entityId: id, action: "delete", before: row, after: null })
+  );
+  return entries;
+};
+
+const writeEntries = (
+  tx: Tx,
+  actor: string,
+  entries: PendingEntry[],
+  revertOf: string | null = null
+) =>
+  tx.auditEntry.createMany({
+    data: entries.map((entry) => ({
+      ...entry,
+      before: entry.before ?? Prisma.DbNull,
+      after: entry.after ?? Prisma.DbNull,
+      actor,
+      revertOf,
+    })),
+  });
+
+// Runs a bulk write (seed, sync, import) and records every row it touched by
+// comparing whole-table snapshots from before and after. The knowledge base is
+// small enough that this is cheaper than threading the audit through each write.
+export const auditAll = async <T>(tx: Tx, actor: string, write: () => Promise<T>) => {
+  const snapshotAll = () =>
+    Promise.all(AUDIT_ENTITIES.map((entity) => TABLES[entity].snapshots(tx)));
+
+  const before = await snapshotAll();
+  const result = await write();
+  const after = await snapshotAll();
+
+  const entries = AUDIT_ENTITIES.flatMap((entity, i) =>
+    diffSnapshots(entity, before[i]!, after[i]!)
+  );
+  await writeEntries(tx, actor, entries);
+  return { result, entries: entries.length };
+};
+
+// Runs a write to one row and records it. `id` is null for a create, the
+// new row's id is taken from the write's result.
+export const auditRow = async <T extends { id: string }>(
+  tx: Tx,
+  actor: string,
+  entity: AuditEntity,
+  id: string | null,
+  write: () => Promise<T>
+) => {
+  const table = TABLES[entity];
+  const before = id ? await table.snapshots(tx, [id]) : [];
+  const result = await write();
+  const after = await table.snapshots(tx, [result.id]);
+  await writeEntries(tx, actor, diffSnapshots(entity, before, after));
+  return result;
+};
+
+// Actor recorded for command-line scripts, e.g. "dataset sync (alice)"
+export const scriptActor = (script: string) => {
+  try {
+    return `${script} (${userInfo().username})`;
+  } catch {
+    return script;
+  }
+};
+
+// Fields whose value differs between two snapshots (updatedAt aside)
+const changedFields = (before: Snapshot | null, after: Snapshot | null) => {
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  keys.delete("updatedAt");
+  return Array.from(keys).filter(
+    (key) => JSON.stringify(before?.[key]) !== JSON.stringify(after?.[key])
+  );
+};
+
+// Every change to one row, newest first
+export const rowHistory = async (entity: AuditEntity, id: string) => {
+  const entries = await prisma.auditEntry.findMany({
+    where: { entity, entityId: id },
+    orderBy: { createdAt: "desc" },
+  });
+  return {
+    entity,
+    id,
+    count: entries.length,
+    entries: entries.map((entry) => ({
+      ...entry,
+      changed: changedFields(
+        entry.before as Snapshot | null,
+        entry.after as Snapshot | null
+      ),
+    })),
+  };
+};
+
+// Review fields for a relation or source being reverted to `version`. The
+// restored content is treated like any edit: an approved row goes back to
+// review, drafts and retired rows keep their status, and a row re-created
+// from a deleted version waits for review.
+const reviewOnRevert = (
+  entity: AuditEntity,
+  current: Snapshot | null,
+  version: Snapshot,
+  actor: string
+): ReviewData => {
+  if (!isReviewKind(entity)) return null;
+  if (!current) return reviewFields("in-review", actor);
+
+  const from = current.status as ReviewStatus;
+  const changed = JSON.stringify(restorable(current)) !== JSON.stringify(restorable(version));
+  const review = reviewAfterEdit(from, changed, actor);
+  if (review && review.status !== from && !canTransition(from, review.status)) {
+    throw new AuditError(`A ${entity} can't move from "${from}" to "${review.status}"`);
+  }
+  return review;
+};
+
+// Put a row back the way it was right after `entryId`: re-created if it has
+// since been deleted, deleted if that entry deleted it. The revert is itself
+// recorded, pointing at `entryId`. The review status isn't restored with the
+// rest (see reviewOnRevert). Returns null when the entry doesn't belong
+// to this row; throws AuditError when the old version can't be written back
+// (a name now taken by another row, a cited source that no longer exists),
+// and ContradictionError when a relation that comes back active would
+// contradict another one.
+export const revertRow = async (
+  entity: AuditEntity,
+  id: string,
+  entryId: string,
+  actor: string
+) => {
+  const target = await prisma.auditEntry.findFirst({
+    where: { id: entryId, entity, entityId: id },
+  });
+  if (!target) return null;
+
+  const table = TABLES[entity];
+  const version = target.after as Snapshot | null;
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const before = await table.snapshots(tx, [id]);
+      if (version) {
+        const review = reviewOnRevert(entity, before[0] ?? null, version, actor);
+        if ((review?.status ?? before[0]?.status) !== "retired") {
+          await table.guard?.(tx, id, version);
+        }
+        await table.restore(tx, id, version, review);
+      } else if (before.length > 0) {
+        await table.remove(tx, id);
+      }
+      const after = await table.snapshots(tx, [id]);
+
+      const entries = diffSnapshots(entity, before, after);
+      await writeEntries(tx, actor, entries, entryId);
+      return { entity, id, revertOf: entryId, changed: entries.length > 0, row: after[0] ?? null };
+    });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      (error.code === "P2002" || error.code === "P2003")
+    ) {
+      throw new AuditError(
+        `Can't restore this version of the ${entity}: ${
+          error.code === "P2002"
+            ? "another row now has the same unique value"
+            : "a row it refers to no longer exists"
+        }`
+      );
+    }
+    throw error;
+  }
+};
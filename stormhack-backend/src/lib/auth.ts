@@ -0,0 +1,227 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { User } from "@prisma/client";
+import { prisma } from "./prisma";
+import { FieldErrors, ValidationError } from "./errors";
+
+// Local accounts and signed bearer tokens, with no outside identity provider.
+// Tokens are HS256 JWTs signed with AUTH_SECRET; they carry the user's id and
+// expire after AUTH_TOKEN_TTL_HOURS (24 by default). The role is read from the
+// database on every request, so a promotion or demotion applies at once.
+// Rotating AUTH_SECRET signs everyone out.
+
+// Ordered from least to most trusted: each role can do everything the ones
+// before it can
+export const ROLES = [
+  "anonymous", // no token: public reads
+  "user", // registered account
+  "curator", // edits and reviews the knowledge base
+  "admin", // manages accounts, exports the database
+] as const;
+
+export type Role = (typeof ROLES)[number];
+
+// Roles an account can hold
+export const ACCOUNT_ROLES = ["user", "curator", "admin"] as const;
+
+export type AccountRole = (typeof ACCOUNT_ROLES)[number];
+
+export const DEFAULT_ROLE: AccountRole = "user";
+
+export const isAccountRole = (value: unknown): value is AccountRole =>
+  ACCOUNT_ROLES.includes(value as AccountRole);
+
+export const hasRole = (role: Role, required: Role) =>
+  ROLES.indexOf(role) >= ROLES.indexOf(required);
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    // 503 when auth isn't configured on this server
+    readonly status: 401 | 503 = 401
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+// A user as the API shows it, without the password hash
+export type AccountUser = Omit<User, "passwordHash" | "role"> & { role: AccountRole };
+
+export const toAccountUser = ({ passwordHash: _hash, role, ...user }: User): AccountUser => ({
+  ...user,
+  role: isAccountRole(role) ? role : DEFAULT_ROLE,
+});
+
+// ==================== PASSWORDS ====================
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const hashPassword = async (password: string) => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+};
+
+export const verifyPassword = async (password: string, stored: string) => {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+// ==================== TOKENS ====================
+
+export type TokenClaims = {
+  sub: string; // user id
+  iat: number; // seconds since the epoch
+  exp: number;
+};
+
+// Read when needed rather than at import, so dotenv has run first
+const authSecret = () => {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new AuthError("Sign-in is disabled (AUTH_SECRET is not set)", 503);
+  }
+  return secret;
+};
+
+const tokenTtlSeconds = () => {
+  const hours = Number(process.env.AUTH_TOKEN_TTL_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 24) * 3600;
+};
+
+const base64url = (value: string | Buffer) => Buffer.from(value).toString("base64url");
+
+const sign = (content: string, secret: string) =>
+  createHmac("sha256", secret).update(content).digest();
+
+const TOKEN_HEADER = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+
+export const issueToken = (user: Pick<User, "id">) => {
+  const secret = authSecret();
+  const iat = Math.floor(Date.now() / 1000);
+  const claims: TokenClaims = { sub: user.id, iat, exp: iat + tokenTtlSeconds() };
+  const content = `${TOKEN_HEADER}.${base64url(JSON.stringify(claims))}`;
+  return {
+    token: `${content}.${base64url(sign(content, secret))}`,
+    expiresAt: new Date(claims.exp * 1000).toISOString(),
+  };
+};
+
+// Throws AuthError unless the token was signed here and hasn't expired
+export const verifyToken = (token: string): TokenClaims => {
+  const secret = authSecret();
+  const [header, payload, signature] = token.split(".");
+  if (header !== TOKEN_HEADER || !payload || !signature) {
+    throw new AuthError("Malformed token");
+  }
+
+  const expected = sign(`${header}.${payload}`, secret);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new AuthError("Invalid token signature");
+  }
+
+  let claims: Partial<TokenClaims>;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    throw new AuthError("Malformed token");
+  }
+  if (typeof claims.sub !== "string" || typeof claims.exp !== "number") {
+    throw new AuthError("Malformed token");
+  }
+  if (claims.exp * 1000 <= Date.now()) {
+    throw new AuthError("Token has expired, sign in again");
+  }
+  return claims as TokenClaims;
+};
+
+// The account a token belongs to; throws AuthError if it's invalid or the
+// account has since been deleted
+export const userFromToken = async (token: string) => {
+  const { sub } = verifyToken(token);
+  const user = await prisma.user.findUnique({ where: { id: sub } });
+  if (!user) throw new AuthError("This account no longer exists");
+  return toAccountUser(user);
+};
+
+// ==================== ACCOUNTS ====================
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+type AccountBody = Record<string, unknown>;
+
+// Body: { email, name, password }. New accounts are plain users; an admin
+// promotes them (or `npm run auth:create-user` for the first admin)
+export const registerUser = async (body: AccountBody) => {
+  authSecret(); // no account is created if it couldn't be signed in
+  const { email, name, password } = body;
+  const errors: FieldErrors = {};
+  if (typeof email !== "string" || !EMAIL_PATTERN.test(email.trim())) {
+    errors.email = "must be an email address";
+  }
+  if (typeof name !== "string" || !name.trim()) {
+    errors.name = "is required";
+  }
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    errors.password = `must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (Object.keys(errors).length > 0) throw new ValidationError(errors);
+
+  const address = normalizeEmail(email as string);
+  if (await prisma.user.findUnique({ where: { email: address } })) {
+    throw new ValidationError({ email: "is already registered" }, 409);
+  }
+
+  const user = await prisma.user.create({
+    data: {
+      email: address,
+      name: (name as string).trim(),
+      passwordHash: await hashPassword(password as string),
+      role: DEFAULT_ROLE,
+    },
+  });
+  return toAccountUser(user);
+};
+
+// Checked against when there's no account for the email, so an unknown email
+// costs the same scrypt run as a wrong password. No password matches it.
+const DUMMY_PASSWORD_HASH = `scrypt$${"00".repeat(16)}$${"00".repeat(KEY_LENGTH)}`;
+
+// The account for this email and password, or null. Both mismatches look the
+// same to the caller, in the response and in its timing, so neither reveals
+// which emails exist.
+export const authenticateUser = async (email: unknown, password: unknown) => {
+  if (typeof email !== "string" || typeof password !== "string") return null;
+  const user = await prisma.user.findUnique({ where: { email: normalizeEmail(email) } });
+  const matches = await verifyPassword(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+  if (!user || !matches) return null;
+  return toAccountUser(user);
+};
+
+export const listUsers = async () => {
+  const users = await prisma.user.findMany({ orderBy: { createdAt: "asc" } });
+  return { count: users.length, users: users.map(toAccountUser) };
+};
+
+// Returns null if there's no such account
+export const setUserRole = async (id: string, role: AccountRole) => {
+  if (!(await prisma.user.findUnique({ where: { id } }))) return null;
+  return toAccountUser(await prisma.user.update({ where: { id }, data: { role } }));
+};
+
+// Who made a change, as recorded in the audit log and review fields
+export const actorName = (user: AccountUser) => user.email;
@@ -0,0 +1,32 @@
+// How the disease guide settles a food that is BENEFICIAL for one of the
+// requested diseases and AVOID for another
+
+export const CONFLICT_POLICIES = [
+  "avoid-wins", // always list it under avoid (safest, default)
+  "higher-severity", // the side with the higher severity wins, avoid on ties
+  "keep-both", // list it under both, only flag the conflict
+] as const;
+
+export type ConflictPolicy = (typeof CONFLICT_POLICIES)[number];
+
+export type ConflictResolution = "avoid" | "beneficial" | "both";
+
+export const DEFAULT_CONFLICT_POLICY: ConflictPolicy = "avoid-wins";
+
+export const isConflictPolicy = (value: unknown): value is ConflictPolicy =>
+  CONFLICT_POLICIES.includes(value as ConflictPolicy);
+
+export const resolveConflict = (
+  policy: ConflictPolicy,
+  avoidSeverity: number,
+  beneficialSeverity: number
+): ConflictResolution => {
+  switch (policy) {
+    case "avoid-wins":
+      return "avoid";
+    case "higher-severity":
+      return beneficialSeverity > avoidSeverity ? "beneficial" : "avoid";
+    case "keep-both":
+      return "both";
+  }
+};
@@ -0,0 +1,244 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { canonicalPair } from "./ingredientPairs";
+import { formatSource, includeAllSources, SourceInfo, SourceLink } from "./sources";
+
+// A contradiction is the same ingredient pair having both an
+// IngredientInteraction and an IngredientBenefit, or the same
+// disease/ingredient having both an AVOID and a BENEFICIAL relation.
+// Rows flagged `contextDependent` are known, intentional contradictions.
+// Retired rows are withdrawn claims and don't count.
+
+// Rows that can take part in a contradiction, as a Prisma filter and as a
+// check on rows already loaded
+export const ACTIVE = { status: { not: "retired" } } as const;
+
+export const isActive = (row: { status: string }) => row.status !== ACTIVE.status.not;
+
+type ClaimSummary = {
+  id: string;
+  reason: string;
+  severity: number;
+  evidence: string;
+  status: string;
+  contextDependent: boolean;
+  sources: SourceInfo[];
+};
+
+export type PairContradiction = {
+  ingredients: [string, string];
+  contextDependent: boolean;
+  interaction: ClaimSummary;
+  benefit: ClaimSummary;
+};
+
+export type DiseaseContradiction = {
+  disease: string;
+  ingredient: string;
+  contextDependent: boolean;
+  avoid: ClaimSummary;
+  beneficial: ClaimSummary;
+};
+
+export type ContradictionReport = {
+  checkedAt: string;
+  pairContradictions: PairContradiction[];
+  diseaseContradictions: DiseaseContradiction[];
+  // Contradictions where neither side is marked context-dependent
+  unresolvedCount: number;
+};
+
+export class ContradictionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ContradictionError";
+  }
+}
+
+const summarize = (claim: {
+  id: string;
+  reason: string;
+  severity: number;
+  evidence: string;
+  status: string;
+  contextDependent: boolean;
+  sources: SourceLink[];
+}): ClaimSummary => ({
+  id: claim.id,
+  reason: claim.reason,
+  severity: claim.severity,
+  evidence: claim.evidence,
+  status: claim.status,
+  contextDependent: claim.contextDependent,
+  sources: claim.sources.map(formatSource),
+});
+
+type Claim = { status: string; contextDependent: boolean };
+
+// Pairs each claim on one side with the claim on the other side that has the
+// same key, leaving out retired claims. A match is resolved when either side
+// is context-dependent.
+const matchClaims = <A extends Claim, B extends Claim>(
+  sideA: A[],
+  sideB: B[],
+  key: (claim: A | B) => string
+) => {
+  const byKey = new Map(sideB.filter(isActive).map((b) => [key(b), b]));
+  return sideA.filter(isActive).flatMap((a) => {
+    const b = byKey.get(key(a));
+    return b ? [{ a, b, contextDependent: a.contextDependent || b.contextDependent }] : [];
+  });
+};
+
+// Pairs are stored canonically, so the same key means the same pair
+const pairKey = (claim: { ingredientAId: string; ingredientBId: string }) =>
+  `${claim.ingredientAId}:${claim.ingredientBId}`;
+
+const diseaseKey = (claim: { diseaseId: string; ingredientId: string }) =>
+  `${claim.diseaseId}:${claim.ingredientId}`;
+
+type PairClaim = Claim & { ingredientAId: string; ingredientBId: string };
+type DiseaseClaim = Claim & { diseaseId: string; ingredientId: string; type: string };
+
+const matchPairs = <I extends PairClaim, B extends PairClaim>(interactions: I[], benefits: B[]) =>
+  matchClaims(interactions, benefits, pairKey).map(({ a, b, contextDependent }) => ({
+    interaction: a,
+    benefit: b,
+    contextDependent,
+  }));
+
+const matchDiseaseRelations = <R extends DiseaseClaim>(relations: R[]) =>
+  matchClaims(
+    relations.filter((r) => r.type === "AVOID"),
+    relations.filter((r) => r.type === "BENEFICIAL"),
+    diseaseKey
+  ).map(({ a, b, contextDependent }) => ({ avoid: a, beneficial: b, contextDependent }));
+
+export const findContradictions = async (): Promise<ContradictionReport> => {
+  const include = { ingredientA: true, ingredientB: true, sources: includeAllSources };
+  const [interactions, benefits, diseaseRelations] = await Promise.all([
+    prisma.ingredientInteraction.findMany({ where: ACTIVE, include }),
+    prisma.ingredientBenefit.findMany({ where: ACTIVE, include }),
+    prisma.diseaseIngredient.findMany({
+      where: ACTIVE,
+      include: { disease: true, ingredient: true, sources: includeAllSources },
+    }),
+  ]);
+
+  const pairContradictions: PairContradiction[] = matchPairs(interactions, benefits).map(
+    ({ interaction, benefit, contextDependent }) => ({
+      ingredients: [interaction.ingredientA.name, interaction.ingredientB.name],
+      contextDependent,
+      interaction: summarize(interaction),
+      benefit: summarize(benefit),
+    })
+  );
+
+  const diseaseContradictions: DiseaseContradiction[] = matchDiseaseRelations(
+    diseaseRelations
+  ).map(({ avoid, beneficial, contextDependent }) => ({
+    disease: avoid.disease.name,
+    ingredient: avoid.ingredient.name,
+    contextDependent,
+    avoid: summarize(avoid),
+    beneficial: summarize(beneficial),
+  }));
+
+  return {
+    checkedAt: new Date().toISOString(),
+    pairContradictions,
+    diseaseContradictions,
+    unresolvedCount: [...pairContradictions, ...diseaseContradictions].filter(
+      (c) => !c.contextDependent
+    ).length,
+  };
+};
+
+// Same check for relations that aren't in the database yet (a bundle about to
+// be restored): the unresolved contradictions among them, as the interaction
+// of each pair and the AVOID relation of each disease/ingredient
+export const findUnresolvedClaims = <
+  I extends PairClaim,
+  B extends PairClaim,
+  D extends DiseaseClaim,
+>(claims: {
+  interactions: I[];
+  benefits: B[];
+  diseaseRelations: D[];
+}) => ({
+  pairs: matchPairs(claims.interactions, claims.benefits)
+    .filter((c) => !c.contextDependent)
+    .map((c) => c.interaction),
+  diseaseRelations: matchDiseaseRelations(claims.diseaseRelations)
+    .filter((c) => !c.contextDependent)
+    .map((c) => c.avoid),
+});
+
+// Guards for writers: throw if the write would create an unresolved
+// contradiction. The rule is the one findContradictions uses: a pair is
+// resolved when either the write or the opposite row is context-dependent.
+// Call them inside the transaction that makes the write: they hold a lock on
+// the pair (or disease/ingredient) until it ends, so two concurrent writes
+// can't both pass.
+
+type Tx = Prisma.TransactionClient;
+
+const lockClaim = (tx: Tx, key: string) =>
+  tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${key}))`;
+
+export const assertNoPairContradiction = async (
+  tx: Tx,
+  write: {
+    kind: "interaction" | "benefit";
+    ingredientAId: string;
+    ingredientBId: string;
+    contextDependent?: boolean | undefined;
+  }
+) => {
+  if (write.contextDependent) return;
+  const pair = canonicalPair(write.ingredientAId, write.ingredientBId);
+  await lockClaim(tx, `pair:${pair.ingredientAId}:${pair.ingredientBId}`);
+  const where = { ...pair, contextDependent: false, ...ACTIVE };
+  const opposite =
+    write.kind === "interaction"
+      ? await tx.ingredientBenefit.findFirst({ where })
+      : await tx.ingredientInteraction.findFirst({ where });
+  if (opposite) {
+    throw new ContradictionError(
+      `This pair already has ${
+        write.kind === "interaction" ? "a beneficial pairing" : "an avoid interaction"
+      } (${opposite.id}); mark the write as contextDependent to keep both`
+    );
+  }
+};
+
+export const assertNoDiseaseContradiction = async (
+  tx: Tx,
+  write: {
+    // The row being written, when it already exists: a revert can flip its type
+    id?: string | undefined;
+    diseaseId: string;
+    ingredientId: string;
+    type: string;
+    contextDependent?: boolean | undefined;
+  }
+) => {
+  if (write.contextDependent) return;
+  const oppositeType = write.type === "AVOID" ? "BENEFICIAL" : "AVOID";
+  await lockClaim(tx, `disease:${write.diseaseId}:${write.ingredientId}`);
+  const opposite = await tx.diseaseIngredient.findFirst({
+    where: {
+      diseaseId: write.diseaseId,
+      ingredientId: write.ingredientId,
+      type: oppositeType,
+      contextDependent: false,
+      ...(write.id && { id: { not: write.id } }),
+      ...ACTIVE,
+    },
+  });
+  if (opposite) {
+    throw new ContradictionError(
+      `This disease/ingredient already has a ${oppositeType} relation (${opposite.id}); mark the write as contextDependent to keep both`
+    );
+  }
+};
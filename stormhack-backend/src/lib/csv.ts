@@ -0,0 +1,102 @@
+// Minimal RFC 4180 CSV reader for the curated dataset files: quoted fields,
+// doubled quotes, commas and newlines inside quotes, CRLF or LF line endings.
+
+export type CsvRecord = {
+  line: number; // 1-based line the record starts on (the header is line 1)
+  values: Record<string, string>;
+};
+
+export type CsvFile = {
+  header: string[];
+  records: CsvRecord[];
+};
+
+export class CsvParseError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(message);
+    this.line = line;
+    this.name = "CsvParseError";
+  }
+}
+
+const parseRows = (text: string) => {
+  const rows: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      fields.push(field);
+      rows.push({ line: rowLine, fields });
+      fields = [];
+      field = "";
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CsvParseError("Unterminated quoted field", rowLine);
+  }
+  if (field !== "" || fields.length > 0) {
+    fields.push(field);
+    rows.push({ line: rowLine, fields });
+  }
+  return rows;
+};
+
+// Header names are trimmed and blank header cells (e.g. a trailing comma)
+// are dropped; blank lines are skipped
+export const parseCsv = (text: string): CsvFile => {
+  const [headerRow, ...rows] = parseRows(text.replace(/^\uFEFF/, ""));
+  if (!headerRow) return { header: [], records: [] };
+
+  const header = headerRow.fields.map((name) => name.trim());
+  const records = rows
+    .filter((row) => row.fields.some((value) => value.trim() !== ""))
+    .map((row) => {
+      const values: Record<string, string> = {};
+      header.forEach((name, i) => {
+        if (name) values[name] = (row.fields[i] ?? "").trim();
+      });
+      return { line: row.line, values };
+    });
+
+  return { header: header.filter(Boolean), records };
+};
+
+type CsvValue = string | number | boolean | null;
+
+// Quote only the fields that need it; null is written as an empty field
+const formatField = (value: CsvValue) => {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: CsvValue[][]) =>
+  [header, ...rows].map((row) => row.map(formatField).join(",")).join("\n") +
+  "\n";
@@ -0,0 +1,776 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { checkValue, ColumnSpec, DATASET_SCHEMA, relationColumns } from "./dataset";
+import { normalizeIngredientName } from "./ingredientResolver";
+import { canonicalPair } from "./ingredientPairs";
+import { assertNoDiseaseContradiction, assertNoPairContradiction } from "./contradictions";
+import { auditAll, auditRow } from "./audit";
+import { includeAllSources } from "./sources";
+import { FieldErrors, ValidationError } from "./errors";
+import { reviewAfterEdit } from "./review";
+
+// Create, update and delete of knowledge base rows for the admin API. Fields
+// are checked with the same rules as the curated CSVs (src/lib/dataset.ts) and
+// every problem is reported at once in a ValidationError. Names are stored
+// lowercase, relations refer to ingredients and diseases by name, and every
+// write is recorded in the audit log under `actor`, the signed-in curator. New
+// relations and sources start as drafts (src/lib/review.ts), and editing an
+// approved one sends it back to review.
+
+export type CurationBody = Record<string, unknown>;
+type Value = string | number | boolean | Date | null;
+type Values = Record<string, Value>;
+type Tx = Prisma.TransactionClient;
+
+const INGREDIENT_FIELDS = DATASET_SCHEMA.ingredient;
+
+const DISEASE_FIELDS: Record<string, ColumnSpec> = {
+  name: { type: "text", required: true },
+  description: { type: "text", optional: true },
+  type: { type: "enum", optional: true, values: ["chronic", "acute"] },
+};
+
+const PAIR_FIELDS: Record<string, ColumnSpec> = {
+  ingredientA: { type: "text", required: true },
+  ingredientB: { type: "text", required: true },
+  ...relationColumns,
+};
+
+const DISEASE_RELATION_FIELDS: Record<string, ColumnSpec> = {
+  disease: { type: "text", required: true },
+  ingredient: { type: "text", required: true },
+  type: { type: "enum", required: true, values: ["avoid", "beneficial"] },
+  ...relationColumns,
+};
+
+const { label, url, publisher, year, accessedAt, sourceType } = DATASET_SCHEMA.source;
+const SOURCE_FIELDS = { label, url, publisher, year, accessedAt, sourceType } as Record<
+  string,
+  ColumnSpec
+>;
+
+// Columns that can't hold null; sending null (or "") leaves them at their
+// default on create and unchanged on update
+const NOT_NULL = ["type", "severity", "evidence", "contextDependent"];
+
+const convert = (spec: ColumnSpec, text: string): Value => {
+  switch (spec.type) {
+    case "integer":
+      return Number(text);
+    case "boolean":
+      return text.toLowerCase() === "true";
+    case "enum":
+      return text.toLowerCase();
+    case "date":
+      return new Date(text);
+    default:
+      return text;
+  }
+};
+
+// Checks `body` against `specs`. On update (`partial`) missing fields are
+// left alone; on create required fields must be there. Fields that aren't in
+// `specs` or `extra` are reported too, to catch typos.
+const parseFields = (
+  body: CurationBody,
+  specs: Record<string, ColumnSpec>,
+  errors: FieldErrors,
+  { partial = false, extra = [] as string[] } = {}
+) => {
+  const values: Values = {};
+
+  Object.keys(body).forEach((key) => {
+    if (!(key in specs) && !extra.includes(key)) {
+      errors[key] = "is not a known field";
+    }
+  });
+
+  Object.entries(specs).forEach(([field, spec]) => {
+    const raw = body[field];
+    if (raw === undefined) {
+      if (!partial && spec.required) errors[field] = "is required";
+      return;
+    }
+    if (raw !== null && !["string", "number", "boolean"].includes(typeof raw)) {
+      errors[field] = "must be a string, number or boolean";
+      return;
+    }
+    const text = raw === null ? "" : String(raw).trim();
+    const problem = checkValue(spec, text);
+    if (problem) {
+      errors[field] = problem;
+    } else if (text !== "") {
+      values[field] = convert(spec, text);
+    } else if (!NOT_NULL.includes(field)) {
+      values[field] = null;
+    }
+  });
+
+  return values;
+};
+
+// Prisma data built from parseFields' output. Each column is copied only when
+// it was sent and has the column's type; null clears an optional column.
+const isText = (value: Value | undefined): value is string => typeof value === "string";
+const isTextOrNull = (value: Value | undefined): value is string | null =>
+  value === null || typeof value === "string";
+
+const ingredientData = ({ category }: Values) => ({
+  ...(isTextOrNull(category) && { category }),
+});
+
+const diseaseData = ({ description, type }: Values) => ({
+  ...(isTextOrNull(description) && { description }),
+  ...(isText(type) && { type }),
+});
+
+const relationData = ({ reason, severity, evidence, contextDependent }: Values) => ({
+  ...(isText(reason) && { reason }),
+  ...(typeof severity === "number" && { severity }),
+  ...(isText(evidence) && { evidence }),
+  ...(typeof contextDependent === "boolean" && { contextDependent }),
+});
+
+const sourceData = ({ label, url, publisher, year, accessedAt, sourceType }: Values) => ({
+  ...(isText(label) && { label }),
+  ...(isTextOrNull(url) && { url }),
+  ...(isTextOrNull(publisher) && { publisher }),
+  ...((year === null || typeof year === "number") && { year }),
+  ...((accessedAt === null || accessedAt instanceof Date) && { accessedAt }),
+  ...(isTextOrNull(sourceType) && { sourceType }),
+});
+
+type RelationData = ReturnType<typeof relationData>;
+type ReviewUpdate = Partial<NonNullable<ReturnType<typeof reviewAfterEdit>>>;
+
+const throwIfInvalid = (errors: FieldErrors) => {
+  if (Object.keys(errors).length > 0) throw new ValidationError(errors);
+};
+
+// Fields that identify a relation can't change; it's a different claim then
+const rejectIdentityChanges = (body: CurationBody, fields: string[], errors: FieldErrors) =>
+  fields
+    .filter((field) => body[field] !== undefined)
+    .forEach((field) => {
+      errors[field] = "can't be changed; delete the relation and create a new one";
+    });
+
+// Normalized names of the `names` list (e.g. aliases)
+const parseNames = (value: unknown, field: string, errors: FieldErrors) => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every((v) => typeof v === "string")) {
+    errors[field] = "must be an array of strings";
+    return undefined;
+  }
+  return Array.from(new Set(value.map(normalizeIngredientName).filter(Boolean)));
+};
+
+type Citation = { sourceId: string; snippet: string | null };
+
+// Whether `values` differ from the row's current fields, or `citations` from
+// the ones it cites now
+const changesRow = (
+  current: Record<string, unknown>,
+  values: Values,
+  citations?: Citation[],
+  currentCitations: Citation[] = []
+) =>
+  Object.entries(values).some(([field, value]) => {
+    const was = current[field];
+    return value instanceof Date && was instanceof Date
+      ? value.getTime() !== was.getTime()
+      : value !== was;
+  }) ||
+  (citations !== undefined &&
+    (citations.length !== currentCitations.length ||
+      citations.some(
+        (c) => !currentCitations.some((x) => x.sourceId === c.sourceId && x.snippet === c.snippet)
+      )));
+
+// `sources`: [{ sourceId, snippet? }], each citing an existing Source once
+const parseCitations = async (value: unknown, errors: FieldErrors) => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    errors.sources = "must be an array of { sourceId, snippet }";
+    return undefined;
+  }
+
+  const citations: Citation[] = [];
+  const positions = new Map<string, number>(); // sourceId -> index in `sources`
+  value.forEach((entry, i) => {
+    const { sourceId, snippet = null } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof sourceId !== "string" || !sourceId) {
+      errors[`sources[${i}].sourceId`] = "is required";
+    } else if (citations.some((c) => c.sourceId === sourceId)) {
+      errors[`sources[${i}].sourceId`] = "is cited twice";
+    } else if (snippet !== null && typeof snippet !== "string") {
+      errors[`sources[${i}].snippet`] = "must be a string";
+    } else {
+      citations.push({ sourceId, snippet: snippet?.trim() || null });
+      positions.set(sourceId, i);
+    }
+  });
+
+  if (citations.length === 0) return citations;
+  const found = new Set(
+    (
+      await prisma.source.findMany({
+        where: { id: { in: citations.map((c) => c.sourceId) } },
+        select: { id: true },
+      })
+    ).map((s) => s.id)
+  );
+  citations.forEach((c) => {
+    if (!found.has(c.sourceId)) {
+      errors[`sources[${positions.get(c.sourceId)}].sourceId`] = `no source with id "${c.sourceId}"`;
+    }
+  });
+  return citations;
+};
+
+// Ingredient or disease a relation refers to, by name
+const findReference = async (
+  kind: "ingredient" | "disease",
+  name: Value | undefined,
+  field: string,
+  errors: FieldErrors
+) => {
+  if (typeof name !== "string") return null;
+  const where = { name: normalizeIngredientName(name) };
+  const row =
+    kind === "ingredient"
+      ? await prisma.ingredient.findUnique({ where })
+      : await prisma.disease.findUnique({ where });
+  if (!row) errors[field] = `no ${kind} named "${where.name}"`;
+  return row;
+};
+
+// A unique constraint hit by a concurrent write that got past the same check
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
+// ==================== INGREDIENTS ====================
+
+// Ingredients are looked up by name or alias, so the two share one namespace:
+// a name can't be another ingredient's alias and an alias can't be any
+// ingredient's name. `id` is the ingredient being updated; its own aliases
+// don't count when `aliases` replaces them, nor its own name when it's renamed.
+const checkIngredientNames = async (
+  id: string | null,
+  name: string | undefined,
+  aliases: string[] | undefined
+) => {
+  const conflicts: FieldErrors = {};
+  if (name) {
+    const taken = await prisma.ingredient.findUnique({ where: { name } });
+    if (taken && taken.id !== id) conflicts.name = `"${name}" already exists`;
+    const alias = await prisma.ingredientAlias.findUnique({
+      where: { alias: name },
+      include: { ingredient: true },
+    });
+    if (alias && !(alias.ingredientId === id && aliases)) {
+      conflicts.name = `"${name}" is already an alias of "${alias.ingredient.name}"`;
+    }
+  }
+  if (aliases) {
+    const taken = await prisma.ingredientAlias.findMany({
+      where: { alias: { in: aliases }, ...(id && { ingredientId: { not: id } }) },
+      include: { ingredient: true },
+    });
+    taken.forEach(({ alias, ingredient }) => {
+      conflicts[`aliases[${aliases.indexOf(alias)}]`] =
+        `"${alias}" is already an alias of "${ingredient.name}"`;
+    });
+    const names = await prisma.ingredient.findMany({ where: { name: { in: aliases } } });
+    names
+      .filter((ingredient) => !(ingredient.id === id && name && name !== ingredient.name))
+      .forEach((ingredient) => {
+        conflicts[`aliases[${aliases.indexOf(ingredient.name)}]`] =
+          `"${ingredient.name}" is already an ingredient name`;
+      });
+    if (name && aliases.includes(name)) {
+      conflicts[`aliases[${aliases.indexOf(name)}]`] = `"${name}" is already an ingredient name`;
+    }
+  }
+  if (Object.keys(conflicts).length > 0) throw new ValidationError(conflicts, 409);
+};
+
+// Body: { name, category?, aliases?: string[] }; aliases replace the current ones
+export const createIngredient = async (body: CurationBody, actor: string) => {
+  const errors: FieldErrors = {};
+  const values = parseFields(body, INGREDIENT_FIELDS, errors, { extra: ["aliases"] });
+  const aliases = parseNames(body.aliases, "aliases", errors);
+  throwIfInvalid(errors);
+
+  const name = normalizeIngredientName(values.name as string);
+  await checkIngredientNames(null, name, aliases);
+
+  const { result } = await prisma.$transaction((tx) =>
+    auditAll(tx, actor, () =>
+      tx.ingredient.create({
+        data: {
+          ...ingredientData(values),
+          name,
+          aliases: { create: (aliases ?? []).map((alias) => ({ alias })) },
+        },
+        include: { aliases: true },
+      })
+    )
+  );
+  return result;
+};
+
+export const updateIngredient = async (id: string, body: CurationBody, actor: string) => {
+  const current = await prisma.ingredient.findUnique({ where: { id } });
+  if (!current) return null;
+
+  const errors: FieldErrors = {};
+  const values = parseFields(body, INGREDIENT_FIELDS, errors, {
+    partial: true,
+    extra: ["aliases"],
+  });
+  const aliases = parseNames(body.aliases, "aliases", errors);
+  throwIfInvalid(errors);
+
+  const name = values.name ? normalizeIngredientName(values.name as string) : undefined;
+  await checkIngredientNames(id, name, aliases);
+
+  const { result } = await prisma.$transaction((tx) =>
+    auditAll(tx, actor, async () => {
+      if (aliases) {
+        await tx.ingredientAlias.deleteMany({ where: { ingredientId: id } });
+        await tx.ingredientAlias.createMany({
+          data: aliases.map((alias) => ({ ingredientId: id, alias })),
+        });
+      }
+      return tx.ingredient.update({
+        where: { id },
+        data: { ...ingredientData(values), ...(name && { name }) },
+        include: { aliases: true },
+      });
+    })
+  );
+  return result;
+};
+
+// Also deletes the ingredient's aliases and every relation that mentions it
+export const deleteIngredient = async (id: string, actor: string) => {
+  if (!(await prisma.ingredient.findUnique({ where: { id } }))) return null;
+  const { result } = await prisma.$transaction((tx) =>
+    auditAll(tx, actor, () => tx.ingredient.delete({ where: { id } }))
+  );
+  return result;
+};
+
+// ==================== DISEASES ====================
+
+const checkDiseaseName = async (id: string | null, name: string | undefined) => {
+  if (!name) return;
+  const taken = await prisma.disease.findUnique({ where: { name } });
+  if (taken && taken.id !== id) {
+    throw new ValidationError({ name: `"${name}" already exists` }, 409);
+  }
+};
+
+// Body: { name, description?, type?: "chronic" | "acute" }
+export const createDisease = async (body: CurationBody, actor: string) => {
+  const errors: FieldErrors = {};
+  const values = parseFields(body, DISEASE_FIELDS, errors);
+  throwIfInvalid(errors);
+
+  const name = normalizeIngredientName(values.name as string);
+  await checkDiseaseName(null, name);
+
+  return prisma.$transaction((tx) =>
+    auditRow(tx, actor, "disease", null, () =>
+      tx.disease.create({ data: { ...diseaseData(values), name } })
+    )
+  );
+};
+
+export const updateDisease = async (id: string, body: CurationBody, actor: string) => {
+  if (!(await prisma.disease.findUnique({ where: { id } }))) return null;
+
+  const errors: FieldErrors = {};
+  const values = parseFields(body, DISEASE_FIELDS, errors, { partial: true });
+  throwIfInvalid(errors);
+
+  const name = values.name ? normalizeIngredientName(values.name as string) : undefined;
+  await checkDiseaseName(id, name);
+
+  return prisma.$transaction((tx) =>
+    auditRow(tx, actor, "disease", id, () =>
+      tx.disease.update({
+        where: { id },
+        data: { ...diseaseData(values), ...(name && { name }) },
+      })
+    )
+  );
+};
+
+// Also deletes every relation of the disease
+export const deleteDisease = async (id: string, actor: string) => {
+  if (!(await prisma.disease.findUnique({ where: { id } }))) return null;
+  const { result } = await prisma.$transaction((tx) =>
+    auditAll(tx, actor, () => tx.disease.delete({ where: { id } }))
+  );
+  return result;
+};
+
+// ==================== INGREDIENT PAIRS ====================
+
+export type PairKind = "interaction" | "benefit";
+
+const pairInclude = { ingredientA: true, ingredientB: true, sources: includeAllSources };
+
+type PairCreate = RelationData & { reason: string; ingredientAId: string; ingredientBId: string };
+type PairRow = {
+  id: string;
+  ingredientAId: string;
+  ingredientBId: string;
+  contextDependent: boolean;
+  status: string;
+};
+
+// The same operations on IngredientInteraction and IngredientBenefit
+type PairTable = {
+  find: (id: string) => Promise<(PairRow & { sources: Citation[] }) | null>;
+  findPair: (pair: { ingredientAId: string; ingredientBId: string }) => Promise<PairRow | null>;
+  create: (tx: Tx, data: PairCreate, citations: Citation[]) => Promise<PairRow>;
+  update: (
+    tx: Tx,
+    id: string,
+    data: RelationData & ReviewUpdate,
+    citations?: Citation[]
+  ) => Promise<PairRow>;
+  remove: (tx: Tx, id: string) => Promise<PairRow>;
+};
+
+const pairTables: Record<PairKind, PairTable> = {
+  interaction: {
+    find: (id) =>
+      prisma.ingredientInteraction.findUnique({ where: { id }, include: { sources: true } }),
+    findPair: (pair) =>
+      prisma.ingredientInteraction.findUnique({ where: { ingredientAId_ingredientBId: pair } }),
+    create: (tx, data, citations) =>
+      tx.ingredientInteraction.create({
+        data: {
+          ...data,
+          sources: { create: citations },
+        },
+        include: pairInclude,
+      }),
+    update: async (tx, id, data, citations) => {
+      if (citations) {
+        await tx.interactionSource.deleteMany({ where: { interactionId: id } });
+        await tx.interactionSource.createMany({
+          data: citations.map((c) => ({ ...c, interactionId: id })),
+        });
+      }
+      return tx.ingredientInteraction.update({
+        where: { id },
+        data,
+        include: pairInclude,
+      });
+    },
+    remove: (tx, id) => tx.ingredientInteraction.delete({ where: { id } }),
+  },
+  benefit: {
+    find: (id) =>
+      prisma.ingredientBenefit.findUnique({ where: { id }, include: { sources: true } }),
+    findPair: (pair) =>
+      prisma.ingredientBenefit.findUnique({ where: { ingredientAId_ingredientBId: pair } }),
+    create: (tx, data, citations) =>
+      tx.ingredientBenefit.create({
+        data: {
+          ...data,
+          sources: { create: citations },
+        },
+        include: pairInclude,
+      }),
+    update: async (tx, id, data, citations) => {
+      if (citations) {
+        await tx.benefitSource.deleteMany({ where: { benefitId: id } });
+        await tx.benefitSource.createMany({
+          data: citations.map((c) => ({ ...c, benefitId: id })),
+        });
+      }
+      return tx.ingredientBenefit.update({
+        where: { id },
+        data,
+        include: pairInclude,
+      });
+    },
+    remove: (tx, id) => tx.ingredientBenefit.delete({ where: { id } }),
+  },
+};
+
+// Body: { ingredientA, ingredientB, reason, severity?, evidence?,
+// contextDependent?, sources?: [{ sourceId, snippet? }] }
+export const createPair = async (kind: PairKind, body: CurationBody, actor: string) => {
+  const errors: FieldErrors = {};
+  const { ingredientA: nameA, ingredientB: nameB, ...values } = parseFields(
+    body,
+    PAIR_FIELDS,
+    errors,
+    { extra: ["sources"] }
+  );
+  const citations = await parseCitations(body.sources, errors);
+  const a = await findReference("ingredient", nameA, "ingredientA", errors);
+  const b = await findReference("ingredient", nameB, "ingredientB", errors);
+  if (a && b && a.id === b.id) {
+    errors.ingredientB = "must be a different ingredient from ingredientA";
+  }
+  throwIfInvalid(errors);
+
+  const table = pairTables[kind];
+  const pair = canonicalPair(a!.id, b!.id);
+  const duplicate = () =>
+    new ValidationError(
+      { ingredientB: `"${a!.name}" + "${b!.name}" already has a ${kind}` },
+      409
+    );
+  if (await table.findPair(pair)) throw duplicate();
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      await assertNoPairContradiction(tx, {
+        kind,
+        ...pair,
+        contextDependent: values.contextDependent === true,
+      });
+      return auditRow(tx, actor, kind, null, () =>
+        table.create(
+          tx,
+          { ...relationData(values), reason: values.reason as string, ...pair },
+          citations ?? []
+        )
+      );
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) throw duplicate();
+    throw error;
+  }
+};
+
+// Body: any of { reason, severity, evidence, contextDependent, sources };
+// `sources` replaces every citation of the relation
+export const updatePair = async (
+  kind: PairKind,
+  id: string,
+  body: CurationBody,
+  actor: string
+) => {
+  const table = pairTables[kind];
+  const current = await table.find(id);
+  if (!current) return null;
+
+  const errors: FieldErrors = {};
+  rejectIdentityChanges(body, ["ingredientA", "ingredientB"], errors);
+  const { ingredientA: _a, ingredientB: _b, ...values } = parseFields(
+    body,
+    PAIR_FIELDS,
+    errors,
+    { partial: true, extra: ["sources"] }
+  );
+  const citations = await parseCitations(body.sources, errors);
+  throwIfInvalid(errors);
+
+  const review = reviewAfterEdit(
+    current.status,
+    changesRow(current, values, citations, current.sources),
+    actor
+  );
+  return prisma.$transaction(async (tx) => {
+    if (values.contextDependent === false && current.contextDependent) {
+      await assertNoPairContradiction(tx, {
+        kind,
+        ingredientAId: current.ingredientAId,
+        ingredientBId: current.ingredientBId,
+        contextDependent: false,
+      });
+    }
+    return auditRow(tx, actor, kind, id, () =>
+      table.update(tx, id, { ...relationData(values), ...review }, citations)
+    );
+  });
+};
+
+export const deletePair = async (kind: PairKind, id: string, actor: string) => {
+  const table = pairTables[kind];
+  if (!(await table.find(id))) return null;
+  return prisma.$transaction((tx) =>
+    auditRow(tx, actor, kind, id, () => table.remove(tx, id))
+  );
+};
+
+// ==================== DISEASE RELATIONS ====================
+
+const diseaseRelationInclude = { disease: true, ingredient: true, sources: includeAllSources };
+
+// Body: { disease, ingredient, type: "avoid" | "beneficial", reason,
+// severity?, evidence?, contextDependent?, sources?: [{ sourceId, snippet? }] }
+export const createDiseaseRelation = async (body: CurationBody, actor: string) => {
+  const errors: FieldErrors = {};
+  const {
+    disease: diseaseName,
+    ingredient: ingredientName,
+    type,
+    ...values
+  } = parseFields(body, DISEASE_RELATION_FIELDS, errors, { extra: ["sources"] });
+  const citations = await parseCitations(body.sources, errors);
+  const disease = await findReference("disease", diseaseName, "disease", errors);
+  const ingredient = await findReference("ingredient", ingredientName, "ingredient", errors);
+  throwIfInvalid(errors);
+
+  const key = {
+    diseaseId: disease!.id,
+    ingredientId: ingredient!.id,
+    type: String(type).toUpperCase(),
+  };
+  const duplicate = () =>
+    new ValidationError(
+      { type: `"${disease!.name}" / "${ingredient!.name}" already has a ${key.type} relation` },
+      409
+    );
+  if (await prisma.diseaseIngredient.findUnique({ where: { diseaseId_ingredientId_type: key } })) {
+    throw duplicate();
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      await assertNoDiseaseContradiction(tx, {
+        ...key,
+        contextDependent: values.contextDependent === true,
+      });
+      return auditRow(tx, actor, "disease-relation", null, () =>
+        tx.diseaseIngredient.create({
+          data: {
+            ...relationData(values),
+            reason: values.reason as string,
+            ...key,
+            sources: { create: citations ?? [] },
+          },
+          include: diseaseRelationInclude,
+        })
+      );
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) throw duplicate();
+    throw error;
+  }
+};
+
+// Body: any of { reason, severity, evidence, contextDependent, sources }
+export const updateDiseaseRelation = async (id: string, body: CurationBody, actor: string) => {
+  const current = await prisma.diseaseIngredient.findUnique({
+    where: { id },
+    include: { sources: true },
+  });
+  if (!current) return null;
+
+  const errors: FieldErrors = {};
+  rejectIdentityChanges(body, ["disease", "ingredient", "type"], errors);
+  const {
+    disease: _disease,
+    ingredient: _ingredient,
+    type: _type,
+    ...values
+  } = parseFields(body, DISEASE_RELATION_FIELDS, errors, {
+    partial: true,
+    extra: ["sources"],
+  });
+  const citations = await parseCitations(body.sources, errors);
+  throwIfInvalid(errors);
+
+  const review = reviewAfterEdit(
+    current.status,
+    changesRow(current, values, citations, current.sources),
+    actor
+  );
+  return prisma.$transaction(async (tx) => {
+    if (values.contextDependent === false && current.contextDependent) {
+      await assertNoDiseaseContradiction(tx, {
+        diseaseId: current.diseaseId,
+        ingredientId: current.ingredientId,
+        type: current.type,
+        contextDependent: false,
+      });
+    }
+    return auditRow(tx, actor, "disease-relation", id, async () => {
+      if (citations) {
+        await tx.diseaseIngredientSource.deleteMany({ where: { diseaseIngredientId: id } });
+        await tx.diseaseIngredientSource.createMany({
+          data: citations.map((c) => ({ ...c, diseaseIngredientId: id })),
+        });
+      }
+      return tx.diseaseIngredient.update({
+        where: { id },
+        data: { ...relationData(values), ...review },
+        include: diseaseRelationInclude,
+      });
+    });
+  });
+};
+
+export const deleteDiseaseRelation = async (id: string, actor: string) => {
+  if (!(await prisma.diseaseIngredient.findUnique({ where: { id } }))) return null;
+  return prisma.$transaction((tx) =>
+    auditRow(tx, actor, "disease-relation", id, () =>
+      tx.diseaseIngredient.delete({ where: { id } })
+    )
+  );
+};
+
+// ==================== SOURCES ====================
+
+const checkSourceUrl = async (id: string | null, url: Value | undefined) => {
+  if (typeof url !== "string") return;
+  const taken = await prisma.source.findUnique({ where: { url } });
+  if (taken && taken.id !== id) {
+    throw new ValidationError({ url: `is already the url of source "${taken.label}"` }, 409);
+  }
+};
+
+// Body: { label, url?, publisher?, year?, accessedAt?, sourceType? }
+export const createSource = async (body: CurationBody, actor: string) => {
+  const errors: FieldErrors = {};
+  const values = parseFields(body, SOURCE_FIELDS, errors);
+  throwIfInvalid(errors);
+  await checkSourceUrl(null, values.url);
+
+  return prisma.$transaction((tx) =>
+    auditRow(tx, actor, "source", null, () =>
+      tx.source.create({ data: { ...sourceData(values), label: values.label as string } })
+    )
+  );
+};
+
+export const updateSource = async (id: string, body: CurationBody, actor: string) => {
+  const current = await prisma.source.findUnique({ where: { id } });
+  if (!current) return null;
+
+  const errors: FieldErrors = {};
+  const values = parseFields(body, SOURCE_FIELDS, errors, { partial: true });
+  throwIfInvalid(errors);
+  await checkSourceUrl(id, values.url);
+
+  const review = reviewAfterEdit(current.status, changesRow(current, values), actor);
+  return prisma.$transaction((tx) =>
+    auditRow(tx, actor, "source", id, () =>
+      tx.source.update({
+        where: { id },
+        data: { ...sourceData(values), ...review },
+      })
+    )
+  );
+};
+
+// Also removes the source from every relation that cites it
+export const deleteSource = async (id: string, actor: string) => {
+  if (!(await prisma.source.findUnique({ where: { id } }))) return null;
+  const { result } = await prisma.$transaction((tx) =>
+    auditAll(tx, actor, () => tx.source.delete({ where: { id } }))
+  );
+  return result;
+};
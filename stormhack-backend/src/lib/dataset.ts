@@ -0,0 +1,800 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { CsvParseError, CsvRecord, parseCsv, toCsv } from "./csv";
+import { editDistance } from "./fuzzySearch";
+import { normalizeIngredientName } from "./ingredientResolver";
+import { SOURCE_TYPES } from "./sources";
+import { EVIDENCE_GRADES, EvidenceGrade, strongerEvidence } from "./evidence";
+
+// Loads the curated catalogue from `db/dataset for prisma/*.csv`. Rows refer to
+// each other by name (the `...Id` columns hold names, not database ids) and
+// `source.csv` attaches citations through "A,B" keys such as "Spinach,Milk".
+// Everything is validated in memory so a bad row never half-writes the database.
+
+export const DATASET_FILES = {
+  ingredient: "ingredient.csv",
+  ingredientAlias: "ingredientAlias.csv",
+  disease: "disease.csv",
+  diseaseIngredient: "diseaseIngredient.csv",
+  ingredientBenefit: "ingredientBenefit.csv",
+  ingredientInteraction: "ingredientInteraction.csv",
+  source: "source.csv",
+} as const;
+
+export type DatasetFile = keyof typeof DATASET_FILES;
+
+export const DEFAULT_DATASET_DIR = path.resolve(
+  __dirname,
+  "../../../db/dataset for prisma"
+);
+
+// Declared layout of each file. `optional` columns may be left out of the
+// header; `required` columns must have a value on every row. Enum values are
+// case-insensitive. Header cells may carry a note in parentheses, e.g.
+// "interactionId(can be null)".
+export type ColumnSpec = {
+  type: "text" | "enum" | "integer" | "boolean" | "url" | "date";
+  required?: boolean;
+  optional?: boolean;
+  values?: readonly string[];
+  min?: number;
+  max?: number;
+};
+
+export const relationColumns = {
+  reason: { type: "text", required: true },
+  severity: { type: "integer", optional: true, min: 1, max: 5 },
+  evidence: { type: "enum", optional: true, values: EVIDENCE_GRADES },
+  contextDependent: { type: "boolean", optional: true },
+} as const;
+
+export const DATASET_SCHEMA: Record<DatasetFile, Record<string, ColumnSpec>> = {
+  ingredient: {
+    name: { type: "text", required: true },
+    category: { type: "text", optional: true },
+  },
+  ingredientAlias: {
+    ingredientId: { type: "text", required: true },
+    alias: { type: "text", required: true },
+  },
+  disease: {
+    name: { type: "text", required: true },
+    description: { type: "text", optional: true },
+    type: {
+      type: "enum",
+      required: true,
+      values: ["chronic", "acute", "temporary"],
+    },
+  },
+  diseaseIngredient: {
+    diseaseId: { type: "text", required: true },
+    ingredientId: { type: "text", required: true },
+    type: { type: "enum", required: true, values: ["avoid", "beneficial"] },
+    ...relationColumns,
+  },
+  ingredientBenefit: {
+    ingredientAId: { type: "text", required: true },
+    ingredientBId: { type: "text", required: true },
+    ...relationColumns,
+  },
+  ingredientInteraction: {
+    ingredientAId: { type: "text", required: true },
+    ingredientBId: { type: "text", required: true },
+    ...relationColumns,
+  },
+  source: {
+    label: { type: "text", required: true },
+    url: { type: "url", optional: true },
+    interactionId: { type: "text" },
+    benefitId: { type: "text" },
+    diseaseIngredientId: { type: "text" },
+    publisher: { type: "text", optional: true },
+    year: { type: "integer", optional: true, min: 1800, max: 2100 },
+    accessedAt: { type: "date", optional: true },
+    snippet: { type: "text", optional: true },
+    sourceType: { type: "enum", optional: true, values: SOURCE_TYPES },
+  },
+};
+
+// Files that may be left out of a dataset directory
+const OPTIONAL_FILES: DatasetFile[] = ["ingredientAlias"];
+
+// Curators write "temporary" for what the API calls "acute"
+export const DISEASE_TYPES: Record<string, string> = {
+  chronic: "chronic",
+  acute: "acute",
+  temporary: "acute",
+};
+
+export type DatasetSource = {
+  label: string;
+  url: string | null;
+  publisher: string | null;
+  year: number | null;
+  accessedAt: string | null; // YYYY-MM-DD
+  snippet: string | null;
+  sourceType: string | null;
+};
+
+// Sources are shared records identified by url, or by label when there's none
+export const sourceKey = (source: { label: string; url: string | null }) =>
+  source.url ?? `label:${source.label}`;
+
+// Prisma create input for the shared Source record; the snippet belongs to the
+// link between the source and one claim
+export const sourceInput = ({ snippet: _snippet, ...source }: DatasetSource) => ({
+  ...source,
+  accessedAt: source.accessedAt ? new Date(source.accessedAt) : null,
+});
+
+// Fields of the shared Source record, as opposed to the per-claim snippet
+export const SHARED_SOURCE_FIELDS = [
+  "label",
+  "publisher",
+  "year",
+  "accessedAt",
+  "sourceType",
+] as const;
+
+export type DatasetIngredient = {
+  name: string;
+  category: string | null;
+  aliases: string[];
+};
+
+export type DatasetDisease = {
+  name: string;
+  description: string | null;
+  type: string;
+};
+
+export type DatasetPair = {
+  ingredients: [string, string];
+  reason: string;
+  severity: number | null; // null -> schema default
+  evidence: EvidenceGrade | null; // null -> schema default
+  contextDependent: boolean;
+  sources: DatasetSource[];
+};
+
+export type DatasetDiseaseRelation = {
+  disease: string;
+  ingredient: string;
+  type: "AVOID" | "BENEFICIAL";
+  reason: string;
+  severity: number | null; // null -> schema default
+  evidence: EvidenceGrade | null; // null -> schema default
+  contextDependent: boolean;
+  sources: DatasetSource[];
+};
+
+export type Dataset = {
+  ingredients: DatasetIngredient[];
+  diseases: DatasetDisease[];
+  interactions: DatasetPair[];
+  benefits: DatasetPair[];
+  diseaseRelations: DatasetDiseaseRelation[];
+};
+
+// Distinct sources cited anywhere in the dataset
+export const datasetSources = (dataset: Dataset): DatasetSource[] => {
+  const sources = new Map<string, DatasetSource>();
+  [...dataset.interactions, ...dataset.benefits, ...dataset.diseaseRelations].forEach(
+    (relation) =>
+      relation.sources.forEach((source) => {
+        if (!sources.has(sourceKey(source))) sources.set(sourceKey(source), source);
+      })
+  );
+  return Array.from(sources.values());
+};
+
+export type DatasetIssue = {
+  file: string;
+  line: number; // 0 when the whole file is missing
+  column?: string;
+  level: "error" | "warning";
+  message: string;
+};
+
+export const hasErrors = (issues: DatasetIssue[]) =>
+  issues.some((issue) => issue.level === "error");
+
+export const formatIssue = (issue: DatasetIssue) =>
+  `${issue.file}:${issue.line}: ${issue.level}: ${issue.message}`;
+
+// Machine-readable result of `npm run dataset:validate`: error and warning
+// counts overall and per file, the rows that loaded and every issue
+export const validationReport = (
+  datasetDir: string,
+  dataset: Dataset,
+  issues: DatasetIssue[]
+) => {
+  const count = (level: DatasetIssue["level"], file?: string) =>
+    issues.filter((i) => i.level === level && (!file || i.file === file)).length;
+  return {
+    valid: !hasErrors(issues),
+    datasetDir,
+    summary: { errors: count("error"), warnings: count("warning") },
+    files: Object.fromEntries(
+      Object.values(DATASET_FILES).map((file) => [
+        file,
+        { errors: count("error", file), warnings: count("warning", file) },
+      ])
+    ),
+    rows: {
+      ingredients: dataset.ingredients.length,
+      aliases: dataset.ingredients.reduce((n, i) => n + i.aliases.length, 0),
+      diseases: dataset.diseases.length,
+      interactions: dataset.interactions.length,
+      benefits: dataset.benefits.length,
+      diseaseRelations: dataset.diseaseRelations.length,
+    },
+    issues,
+  };
+};
+
+// Unordered key, so "Spinach,Milk" and "Milk,Spinach" are the same pair
+export const pairKey = (a: string, b: string) => [a, b].sort().join("\u0000");
+
+export const diseaseRelationKey = (disease: string, ingredient: string, type: string) =>
+  `${disease}\u0000${ingredient}\u0000${type}`;
+
+const columnName = (header: string) => header.replace(/\(.*\)\s*$/, "").trim();
+
+// Problem with a single value according to its column spec, or null. Also
+// used for the admin API, so a field gets the same message as a CSV cell.
+export const checkValue = (spec: ColumnSpec, value: string): string | null => {
+  if (value === "") return spec.required ? "is required" : null;
+  switch (spec.type) {
+    case "enum": {
+      const values = spec.values ?? [];
+      if (values.includes(value.toLowerCase())) return null;
+      const closest = values.find(
+        (candidate) => editDistance(candidate, value.toLowerCase()) <= 2
+      );
+      return `must be one of ${values.join(", ")}, got "${value}"${
+        closest ? ` (did you mean "${closest}"?)` : ""
+      }`;
+    }
+    case "integer": {
+      const number = Number(value);
+      const { min = -Infinity, max = Infinity } = spec;
+      return Number.isInteger(number) && number >= min && number <= max
+        ? null
+        : `must be a whole number from ${min} to ${max}, got "${value}"`;
+    }
+    case "boolean":
+      return ["true", "false"].includes(value.toLowerCase())
+        ? null
+        : `must be true or false, got "${value}"`;
+    case "date":
+      return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value))
+        ? null
+        : `must be a date like 2025-01-31, got "${value}"`;
+    case "url":
+      return /^https?:\/\/\S+$/.test(value)
+        ? null
+        : `must be an http(s) URL, got "${value}"`;
+    default:
+      return null;
+  }
+};
+
+export const loadDataset = async (
+  dir: string
+): Promise<{ dataset: Dataset; issues: DatasetIssue[] }> => {
+  const issues: DatasetIssue[] = [];
+  const report = (
+    file: DatasetFile,
+    line: number,
+    message: string,
+    level: DatasetIssue["level"] = "error",
+    column?: string
+  ) =>
+    issues.push({
+      file: DATASET_FILES[file],
+      line,
+      ...(column && { column }),
+      level,
+      message,
+    });
+
+  // Read, parse and check one file against DATASET_SCHEMA. Rows with a bad
+  // value are reported here and left out, so later checks see only clean rows.
+  const readRecords = async (file: DatasetFile): Promise<CsvRecord[]> => {
+    let text: string;
+    try {
+      text = await readFile(path.join(dir, DATASET_FILES[file]), "utf8");
+    } catch {
+      if (!OPTIONAL_FILES.includes(file)) report(file, 0, "file not found");
+      return [];
+    }
+
+    let parsed;
+    try {
+      parsed = parseCsv(text);
+    } catch (error) {
+      if (error instanceof CsvParseError) {
+        report(file, error.line, error.message);
+        return [];
+      }
+      throw error;
+    }
+
+    const schema = DATASET_SCHEMA[file];
+    const columns = parsed.header.map(columnName);
+    const missing = Object.keys(schema).filter(
+      (name) => !schema[name]!.optional && !columns.includes(name)
+    );
+    if (missing.length > 0) {
+      report(file, 1, `missing column(s): ${missing.join(", ")}`);
+      return [];
+    }
+    columns
+      .filter((name) => !schema[name])
+      .forEach((name) =>
+        report(file, 1, `unknown column "${name}" is ignored`, "warning", name)
+      );
+
+    return parsed.records.flatMap((record) => {
+      const values = Object.fromEntries(
+        Object.entries(record.values).map(([name, value]) => [
+          columnName(name),
+          value,
+        ])
+      );
+      let valid = true;
+      Object.entries(schema).forEach(([name, spec]) => {
+        const problem = checkValue(spec, values[name] ?? "");
+        if (!problem) return;
+        report(file, record.line, `${name} ${problem}`, "error", name);
+        valid = false;
+      });
+      return valid ? [{ line: record.line, values }] : [];
+    });
+  };
+
+  // Values below have already passed checkValue
+  const parseSeverity = (value = "") => (value === "" ? null : Number(value));
+  const parseContextDependent = (value = "") => value.toLowerCase() === "true";
+  const parseEvidence = (value = "") =>
+    value === "" ? null : (value.toLowerCase() as EvidenceGrade);
+  // Merged rows keep the better supported grade
+  const mergeEvidence = (a: EvidenceGrade | null, b: EvidenceGrade | null) =>
+    a && b ? strongerEvidence(a, b) : (a ?? b);
+
+  // ==================== INGREDIENTS & ALIASES ====================
+  const ingredients = new Map<string, DatasetIngredient>();
+  const ingredientLines = new Map<string, number>();
+  for (const { line, values } of await readRecords("ingredient")) {
+    const name = normalizeIngredientName(values.name ?? "");
+    if (ingredients.has(name)) {
+      report(
+        "ingredient",
+        line,
+        `duplicate ingredient "${name}" (first defined on line ${ingredientLines.get(name)})`
+      );
+      continue;
+    }
+    ingredients.set(name, { name, category: values.category || null, aliases: [] });
+    ingredientLines.set(name, line);
+  }
+
+  const aliases = new Map<string, string>();
+  for (const { line, values } of await readRecords("ingredientAlias")) {
+    const ingredient = normalizeIngredientName(values.ingredientId ?? "");
+    const alias = normalizeIngredientName(values.alias ?? "");
+    if (!ingredients.has(ingredient)) {
+      report("ingredientAlias", line, `unknown ingredient "${values.ingredientId}"`);
+    } else if (ingredients.has(alias)) {
+      report("ingredientAlias", line, `alias "${alias}" is already an ingredient name`);
+    } else if (aliases.has(alias)) {
+      report(
+        "ingredientAlias",
+        line,
+        `alias "${alias}" is already used for "${aliases.get(alias)}"`
+      );
+    } else {
+      aliases.set(alias, ingredient);
+      ingredients.get(ingredient)!.aliases.push(alias);
+    }
+  }
+
+  // Relation rows may name an ingredient by an alias too
+  const resolveIngredient = (name: string) => {
+    const normalized = normalizeIngredientName(name);
+    if (ingredients.has(normalized)) return normalized;
+    return aliases.get(normalized) ?? null;
+  };
+
+  // ==================== DISEASES ====================
+  const diseases = new Map<string, DatasetDisease>();
+  const diseaseLines = new Map<string, number>();
+  for (const { line, values } of await readRecords("disease")) {
+    const name = normalizeIngredientName(values.name ?? "");
+    const type = DISEASE_TYPES[(values.type ?? "").toLowerCase()]!;
+    if (diseases.has(name)) {
+      report(
+        "disease",
+        line,
+        `duplicate disease "${name}" (first defined on line ${diseaseLines.get(name)})`
+      );
+      continue;
+    }
+    diseases.set(name, { name, description: values.description || null, type });
+    diseaseLines.set(name, line);
+  }
+
+  // ==================== INGREDIENT PAIRS ====================
+  // Reversed duplicates ("Milk,Spinach" after "Spinach,Milk") are merged into
+  // one pair: highest severity and best evidence win and both reasons are kept
+  const loadPairs = async (
+    file: "ingredientInteraction" | "ingredientBenefit"
+  ) => {
+    const pairs = new Map<string, DatasetPair & { line: number }>();
+    for (const { line, values } of await readRecords(file)) {
+      const a = resolveIngredient(values.ingredientAId ?? "");
+      const b = resolveIngredient(values.ingredientBId ?? "");
+      const reason = values.reason ?? "";
+      const severity = parseSeverity(values.severity);
+      const evidence = parseEvidence(values.evidence);
+      const contextDependent = parseContextDependent(values.contextDependent);
+      if (!a) report(file, line, `unknown ingredient "${values.ingredientAId}"`);
+      if (!b) report(file, line, `unknown ingredient "${values.ingredientBId}"`);
+      if (!a || !b) continue;
+      if (a === b) {
+        report(file, line, `an ingredient can't pair with itself ("${a}")`);
+        continue;
+      }
+
+      const key = pairKey(a, b);
+      const existing = pairs.get(key);
+      if (!existing) {
+        pairs.set(key, {
+          ingredients: [a, b],
+          reason,
+          severity,
+          evidence,
+          contextDependent,
+          sources: [],
+          line,
+        });
+        continue;
+      }
+
+      report(
+        file,
+        line,
+        `"${a}" + "${b}" repeats the pair on line ${existing.line}; merged into one row`,
+        "warning"
+      );
+      if ((severity ?? 0) > (existing.severity ?? 0)) {
+        existing.severity = severity;
+        if (!reason.includes(existing.reason)) {
+          existing.reason = `${reason} ${existing.reason}`;
+        }
+      } else if (!existing.reason.includes(reason)) {
+        existing.reason = `${existing.reason} ${reason}`;
+      }
+      existing.evidence = mergeEvidence(existing.evidence, evidence);
+      existing.contextDependent ||= contextDependent;
+    }
+    return pairs;
+  };
+
+  const interactions = await loadPairs("ingredientInteraction");
+  const benefits = await loadPairs("ingredientBenefit");
+
+  // ==================== DISEASE RELATIONS ====================
+  const diseaseRelations = new Map<
+    string,
+    DatasetDiseaseRelation & { line: number }
+  >();
+  for (const { line, values } of await readRecords("diseaseIngredient")) {
+    const file = "diseaseIngredient";
+    const disease = normalizeIngredientName(values.diseaseId ?? "");
+    const ingredient = resolveIngredient(values.ingredientId ?? "");
+    const type = (values.type ?? "").toUpperCase() as "AVOID" | "BENEFICIAL";
+    const reason = values.reason ?? "";
+    const severity = parseSeverity(values.severity);
+    const evidence = parseEvidence(values.evidence);
+    const contextDependent = parseContextDependent(values.contextDependent);
+    if (!diseases.has(disease)) {
+      report(file, line, `unknown disease "${values.diseaseId}"`);
+    }
+    if (!ingredient) {
+      report(file, line, `unknown ingredient "${values.ingredientId}"`);
+    }
+    if (!diseases.has(disease) || !ingredient) continue;
+
+    const key = diseaseRelationKey(disease, ingredient, type);
+    const existing = diseaseRelations.get(key);
+    if (existing) {
+      report(
+        file,
+        line,
+        `repeats the ${type} relation on line ${existing.line}; merged into one row`,
+        "warning"
+      );
+      existing.severity = Math.max(existing.severity ?? 0, severity ?? 0) || null;
+      if (!existing.reason.includes(reason)) {
+        existing.reason = `${existing.reason} ${reason}`;
+      }
+      existing.evidence = mergeEvidence(existing.evidence, evidence);
+      existing.contextDependent ||= contextDependent;
+      continue;
+    }
+    diseaseRelations.set(key, {
+      disease,
+      ingredient,
+      type,
+      reason,
+      severity,
+      evidence,
+      contextDependent,
+      sources: [],
+      line,
+    });
+  }
+
+  // ==================== CONTRADICTIONS ====================
+  // Same rule as lib/contradictions: both sides may only coexist when one of
+  // them is marked contextDependent
+  benefits.forEach((benefit, key) => {
+    const interaction = interactions.get(key);
+    if (
+      interaction &&
+      !interaction.contextDependent &&
+      !benefit.contextDependent
+    ) {
+      report(
+        "ingredientBenefit",
+        benefit.line,
+        `"${benefit.ingredients.join('" + "')}" is also an interaction (${DATASET_FILES.ingredientInteraction} line ${interaction.line}); mark one of them contextDependent`
+      );
+    }
+  });
+  diseaseRelations.forEach((relation) => {
+    if (relation.type !== "BENEFICIAL") return;
+    const avoid = diseaseRelations.get(
+      diseaseRelationKey(relation.disease, relation.ingredient, "AVOID")
+    );
+    if (avoid && !avoid.contextDependent && !relation.contextDependent) {
+      report(
+        "diseaseIngredient",
+        relation.line,
+        `"${relation.ingredient}" is both beneficial (line ${relation.line}) and avoid (line ${avoid.line}) for "${relation.disease}"; mark one of them contextDependent`
+      );
+    }
+  });
+
+  // ==================== SOURCES ====================
+  // Split an "A,B" key at the comma that yields two known names, so names
+  // containing commas still work
+  const splitKey = (
+    key: string,
+    isLeft: (name: string) => boolean,
+    isRight: (name: string) => boolean
+  ) => {
+    for (let i = key.indexOf(","); i >= 0; i = key.indexOf(",", i + 1)) {
+      const left = key.slice(0, i);
+      const right = key.slice(i + 1);
+      if (isLeft(left) && isRight(right)) return [left, right] as const;
+    }
+    return null;
+  };
+  const isIngredient = (name: string) => resolveIngredient(name) !== null;
+
+  const findPair = (
+    pairs: Map<string, DatasetPair>,
+    key: string
+  ): DatasetPair | null => {
+    const names = splitKey(key, isIngredient, isIngredient);
+    if (!names) return null;
+    return (
+      pairs.get(pairKey(resolveIngredient(names[0])!, resolveIngredient(names[1])!)) ??
+      null
+    );
+  };
+
+  // "Disease,Ingredient", or "Disease,Ingredient,avoid" when the disease has
+  // both an AVOID and a BENEFICIAL relation for the ingredient
+  const findDiseaseRelations = (key: string): DatasetDiseaseRelation[] => {
+    const typed = key.match(/^(.*),\s*(avoid|beneficial)$/i);
+    const types = typed ? [typed[2]!.toUpperCase()] : ["AVOID", "BENEFICIAL"];
+    const names = splitKey(
+      typed ? typed[1]! : key,
+      (name) => diseases.has(normalizeIngredientName(name)),
+      isIngredient
+    );
+    if (!names) return [];
+    const disease = normalizeIngredientName(names[0]);
+    const ingredient = resolveIngredient(names[1])!;
+    return types.flatMap((type) => {
+      const relation = diseaseRelations.get(
+        diseaseRelationKey(disease, ingredient, type)
+      );
+      return relation ? [relation] : [];
+    });
+  };
+
+  const citedSources = new Map<string, { line: number; source: DatasetSource }>();
+  for (const { line, values } of await readRecords("source")) {
+    const label = values.label ?? "";
+    const url = values.url || null;
+    const keys = [
+      ["interactionId", values.interactionId],
+      ["benefitId", values.benefitId],
+      ["diseaseIngredientId", values.diseaseIngredientId],
+    ].filter(([, key]) => key);
+
+    if (keys.length !== 1) {
+      report(
+        "source",
+        line,
+        "exactly one of interactionId, benefitId or diseaseIngredientId must be set"
+      );
+      continue;
+    }
+
+    const [column, key] = keys[0] as [string, string];
+    let targets: { sources: DatasetSource[] }[];
+    if (column === "diseaseIngredientId") {
+      targets = findDiseaseRelations(key);
+      if (targets.length > 1) {
+        report(
+          "source",
+          line,
+          `"${key}" matches both an avoid and a beneficial relation; append ",avoid" or ",beneficial"`
+        );
+        continue;
+      }
+    } else {
+      const pair = findPair(column === "interactionId" ? interactions : benefits, key);
+      targets = pair ? [pair] : [];
+    }
+
+    const target = targets[0];
+    if (!target) {
+      const file =
+        column === "interactionId"
+          ? DATASET_FILES.ingredientInteraction
+          : column === "benefitId"
+            ? DATASET_FILES.ingredientBenefit
+            : DATASET_FILES.diseaseIngredient;
+      report("source", line, `no row in ${file} matches ${column} "${key}"`);
+      continue;
+    }
+    const source: DatasetSource = {
+      label,
+      url,
+      publisher: values.publisher || null,
+      year: values.year ? Number(values.year) : null,
+      accessedAt: values.accessedAt || null,
+      snippet: values.snippet || null,
+      sourceType: values.sourceType ? values.sourceType.toLowerCase() : null,
+    };
+    if (target.sources.some((s) => sourceKey(s) === sourceKey(source))) {
+      report("source", line, `duplicate source "${label}" for "${key}"`, "warning");
+      continue;
+    }
+
+    // Every row citing the same url describes the same Source record
+    const first = citedSources.get(sourceKey(source));
+    if (first) {
+      const differing = SHARED_SOURCE_FIELDS.filter(
+        (field) => first.source[field] !== source[field]
+      );
+      if (differing.length > 0) {
+        report(
+          "source",
+          line,
+          `${url ? `url "${url}"` : `"${label}"`} is cited on line ${first.line} with a different ${differing.join(", ")}`
+        );
+        continue;
+      }
+    } else {
+      citedSources.set(sourceKey(source), { line, source });
+    }
+    target.sources.push(source);
+  }
+
+  const withoutLine = <T extends { line: number }>({ line, ...rest }: T) => rest;
+
+  return {
+    dataset: {
+      ingredients: Array.from(ingredients.values()),
+      diseases: Array.from(diseases.values()),
+      interactions: Array.from(interactions.values()).map(withoutLine),
+      benefits: Array.from(benefits.values()).map(withoutLine),
+      diseaseRelations: Array.from(diseaseRelations.values()).map(withoutLine),
+    },
+    issues,
+  };
+};
+
+// Render a dataset back into the curated CSV layout, one string per file
+export const datasetToCsv = (dataset: Dataset): Record<string, string> => {
+  const columns = (file: DatasetFile) => Object.keys(DATASET_SCHEMA[file]);
+  const relationCells = (relation: DatasetPair | DatasetDiseaseRelation) => [
+    relation.reason,
+    relation.severity,
+    relation.evidence,
+    relation.contextDependent,
+  ];
+  const hasBothTypes = (relation: DatasetDiseaseRelation) =>
+    dataset.diseaseRelations.some(
+      (other) =>
+        other !== relation &&
+        other.disease === relation.disease &&
+        other.ingredient === relation.ingredient
+    );
+
+  // Columns in DATASET_SCHEMA.source order: label, url, the three keys, metadata
+  const sourceRow = (s: DatasetSource, keys: (string | null)[]) => [
+    s.label,
+    s.url,
+    ...keys,
+    s.publisher,
+    s.year,
+    s.accessedAt,
+    s.snippet,
+    s.sourceType,
+  ];
+  const sources = [
+    ...dataset.interactions.flatMap((pair) =>
+      pair.sources.map((s) => sourceRow(s, [pair.ingredients.join(","), null, null]))
+    ),
+    ...dataset.benefits.flatMap((pair) =>
+      pair.sources.map((s) => sourceRow(s, [null, pair.ingredients.join(","), null]))
+    ),
+    ...dataset.diseaseRelations.flatMap((relation) => {
+      const key = [
+        relation.disease,
+        relation.ingredient,
+        ...(hasBothTypes(relation) ? [relation.type.toLowerCase()] : []),
+      ].join(",");
+      return relation.sources.map((s) => sourceRow(s, [null, null, key]));
+    }),
+  ];
+
+  return {
+    [DATASET_FILES.ingredient]: toCsv(
+      columns("ingredient"),
+      dataset.ingredients.map((i) => [i.name, i.category])
+    ),
+    [DATASET_FILES.ingredientAlias]: toCsv(
+      columns("ingredientAlias"),
+      dataset.ingredients.flatMap((i) => i.aliases.map((alias) => [i.name, alias]))
+    ),
+    [DATASET_FILES.disease]: toCsv(
+      columns("disease"),
+      dataset.diseases.map((d) => [d.name, d.description, d.type])
+    ),
+    [DATASET_FILES.diseaseIngredient]: toCsv(
+      columns("diseaseIngredient"),
+      dataset.diseaseRelations.map((r) => [
+        r.disease,
+        r.ingredient,
+        r.type.toLowerCase(),
+        ...relationCells(r),
+      ])
+    ),
+    [DATASET_FILES.ingredientBenefit]: toCsv(
+      columns("ingredientBenefit"),
+      dataset.benefits.map((p) => [...p.ingredients, ...relationCells(p)])
+    ),
+    [DATASET_FILES.ingredientInteraction]: toCsv(
+      columns("ingredientInteraction"),
+      dataset.interactions.map((p) => [...p.ingredients, ...relationCells(p)])
+    ),
+    [DATASET_FILES.source]: toCsv(columns("source"), sources),
+  };
+};
+
+export const writeDataset = async (dataset: Dataset, dir: string) => {
+  await mkdir(dir, { recursive: true });
+  for (const [file, contents] of Object.entries(datasetToCsv(dataset))) {
+    await writeFile(path.join(dir, file), contents, "utf8");
+  }
+};
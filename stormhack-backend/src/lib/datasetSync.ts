@@ -0,0 +1,724 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { canonicalPair } from "./ingredientPairs";
+import {
+  Dataset,
+  DatasetDiseaseRelation,
+  DatasetPair,
+  DatasetSource,
+  datasetSources,
+  diseaseRelationKey,
+  pairKey,
+  sourceInput,
+  sourceKey,
+} from "./dataset";
+import { reviewAfterEdit, reviewFields } from "./review";
+import { auditAll } from "./audit";
+import { isActive } from "./contradictions";
+
+// Incremental sync of a curated dataset into the database. Rows are matched by
+// their natural keys (names, ingredient pairs, disease/ingredient/type), so ids
+// survive a resync and rows added outside the dataset are kept unless `prune`.
+
+export type SyncEntity =
+  | "ingredient"
+  | "alias"
+  | "disease"
+  | "interaction"
+  | "benefit"
+  | "diseaseRelation"
+  | "source"
+  | "citation";
+
+type IdLookup = {
+  ingredient: (name: string) => Promise<string>;
+  disease: (name: string) => Promise<string>;
+  source: (source: { label: string; url: string | null }) => Promise<string>;
+};
+
+export type SyncChange = {
+  action: "insert" | "update" | "delete";
+  entity: SyncEntity;
+  key: string;
+  fields?: Record<string, { from: unknown; to: unknown }>;
+  apply: (tx: Prisma.TransactionClient, ids: IdLookup) => Promise<unknown>;
+};
+
+export type SyncPlan = {
+  prune: boolean;
+  // In execution order: inserts/updates parents-first, then deletes children-first
+  changes: SyncChange[];
+  // Reasons the plan can't be applied (e.g. it would create a contradiction)
+  errors: string[];
+};
+
+// Fields of `wanted` that differ from `current`, for printing and for the update
+const diffFields = <T extends Record<string, unknown>>(
+  current: Record<string, unknown>,
+  wanted: T
+) => {
+  const fields: Record<string, { from: unknown; to: unknown }> = {};
+  const data: Partial<T> = {};
+  (Object.keys(wanted) as (keyof T & string)[]).forEach((field) => {
+    if (current[field] === wanted[field]) return;
+    fields[field] = { from: current[field], to: wanted[field] };
+    data[field] = wanted[field];
+  });
+  return Object.keys(fields).length > 0 ? { fields, data } : null;
+};
+
+// A null dataset severity or evidence means "schema default" on insert and
+// "leave as is" on update
+const relationValues = (relation: {
+  reason: string;
+  severity: number | null;
+  evidence: string | null;
+  contextDependent: boolean;
+}) => ({
+  reason: relation.reason,
+  contextDependent: relation.contextDependent,
+  ...(relation.severity !== null && { severity: relation.severity }),
+  ...(relation.evidence !== null && { evidence: relation.evidence }),
+});
+
+// Relations and sources a sync adds wait for a curator
+const submitted = (submitter: string) => reviewFields("in-review", submitter);
+
+// An existing relation or source the sync changes goes back to review too, as
+// an edit through the admin API does: `fields` shows the status change and
+// `data` is merged into the row's update. Null when the status stays.
+const resubmitted = (
+  existing: { status: string },
+  changed: boolean,
+  submitter: string
+) => {
+  const data = reviewAfterEdit(existing.status, changed, submitter);
+  if (!data) return null;
+  const fields: NonNullable<SyncChange["fields"]> =
+    existing.status === data.status
+      ? {}
+      : { status: { from: existing.status, to: data.status } };
+  return { fields, data };
+};
+
+type ReviewUpdate = Partial<NonNullable<ReturnType<typeof reviewAfterEdit>>>;
+
+// Nested create of a new relation's citations, linking the shared sources
+const citationLinks = async (sources: DatasetSource[], ids: IdLookup) => ({
+  create: await Promise.all(
+    sources.map(async (source) => ({
+      sourceId: await ids.source(source),
+      snippet: source.snippet,
+    }))
+  ),
+});
+
+type PairWrite = ReturnType<typeof relationValues> &
+  ReturnType<typeof submitted> & {
+    ingredientAId: string;
+    ingredientBId: string;
+    sources: Awaited<ReturnType<typeof citationLinks>>;
+  };
+
+type RelationUpdate = Partial<ReturnType<typeof relationValues>> & ReviewUpdate;
+
+const pairTables = {
+  interaction: {
+    create: (tx: Prisma.TransactionClient, data: PairWrite) =>
+      tx.ingredientInteraction.create({ data }),
+    update: (tx: Prisma.TransactionClient, id: string, data: RelationUpdate) =>
+      tx.ingredientInteraction.update({ where: { id }, data }),
+    remove: (tx: Prisma.TransactionClient, id: string) =>
+      tx.ingredientInteraction.delete({ where: { id } }),
+  },
+  benefit: {
+    create: (tx: Prisma.TransactionClient, data: PairWrite) =>
+      tx.ingredientBenefit.create({ data }),
+    update: (tx: Prisma.TransactionClient, id: string, data: RelationUpdate) =>
+      tx.ingredientBenefit.update({ where: { id }, data }),
+    remove: (tx: Prisma.TransactionClient, id: string) =>
+      tx.ingredientBenefit.delete({ where: { id } }),
+  },
+};
+
+// Join tables between each kind of relation and Source
+type CitationTable = {
+  create: (
+    tx: Prisma.TransactionClient,
+    relationId: string,
+    sourceId: string,
+    snippet: string | null
+  ) => Promise<unknown>;
+  update: (tx: Prisma.TransactionClient, id: string, snippet: string | null) => Promise<unknown>;
+  remove: (tx: Prisma.TransactionClient, id: string) => Promise<unknown>;
+};
+
+const citationTables: Record<"interaction" | "benefit" | "diseaseRelation", CitationTable> = {
+  interaction: {
+    create: (tx, interactionId, sourceId, snippet) =>
+      tx.interactionSource.create({ data: { interactionId, sourceId, snippet } }),
+    update: (tx, id, snippet) =>
+      tx.interactionSource.update({ where: { id }, data: { snippet } }),
+    remove: (tx, id) => tx.interactionSource.delete({ where: { id } }),
+  },
+  benefit: {
+    create: (tx, benefitId, sourceId, snippet) =>
+      tx.benefitSource.create({ data: { benefitId, sourceId, snippet } }),
+    update: (tx, id, snippet) =>
+      tx.benefitSource.update({ where: { id }, data: { snippet } }),
+    remove: (tx, id) => tx.benefitSource.delete({ where: { id } }),
+  },
+  diseaseRelation: {
+    create: (tx, diseaseIngredientId, sourceId, snippet) =>
+      tx.diseaseIngredientSource.create({
+        data: { diseaseIngredientId, sourceId, snippet },
+      }),
+    update: (tx, id, snippet) =>
+      tx.diseaseIngredientSource.update({ where: { id }, data: { snippet } }),
+    remove: (tx, id) => tx.diseaseIngredientSource.delete({ where: { id } }),
+  },
+};
+
+type CurrentCitation = {
+  id: string;
+  snippet: string | null;
+  source: { label: string; url: string | null };
+};
+
+// Interaction or benefit row as loaded by planSync
+type CurrentPair = {
+  id: string;
+  status: string;
+  reason: string;
+  severity: number;
+  contextDependent: boolean;
+  ingredientA: { name: string };
+  ingredientB: { name: string };
+  sources: CurrentCitation[];
+};
+
+// `submitter` is recorded as who sent the new rows to review
+export const planSync = async (
+  dataset: Dataset,
+  { prune = false, submitter = "dataset sync" } = {}
+): Promise<SyncPlan> => {
+  const sources = { include: { source: true } };
+  const include = { ingredientA: true, ingredientB: true, sources };
+  const [ingredients, diseases, storedSources, interactions, benefits, diseaseRelations] =
+    await Promise.all([
+      prisma.ingredient.findMany({ include: { aliases: true } }),
+      prisma.disease.findMany(),
+      prisma.source.findMany(),
+      prisma.ingredientInteraction.findMany({ include }),
+      prisma.ingredientBenefit.findMany({ include }),
+      prisma.diseaseIngredient.findMany({
+        include: { disease: true, ingredient: true, sources },
+      }),
+    ]);
+
+  const upserts: SyncChange[] = [];
+  const citationChanges: SyncChange[] = [];
+  const relationDeletes: SyncChange[] = [];
+  const entityDeletes: SyncChange[] = [];
+  const errors: string[] = [];
+
+  // ==================== INGREDIENTS & ALIASES ====================
+  const ingredientsByName = new Map(ingredients.map((i) => [i.name, i]));
+  const aliasesByName = new Map(
+    ingredients.flatMap((i) => i.aliases.map((a) => [a.alias, { ...a, ingredient: i.name }]))
+  );
+
+  dataset.ingredients.forEach(({ name, category }) => {
+    const existing = ingredientsByName.get(name);
+    if (!existing) {
+      upserts.push({
+        action: "insert",
+        entity: "ingredient",
+        key: name,
+        apply: (tx) => tx.ingredient.create({ data: { name, category } }),
+      });
+      return;
+    }
+    const diff = diffFields(existing, { category });
+    if (diff) {
+      upserts.push({
+        action: "update",
+        entity: "ingredient",
+        key: name,
+        fields: diff.fields,
+        apply: (tx) =>
+          tx.ingredient.update({ where: { id: existing.id }, data: diff.data }),
+      });
+    }
+  });
+
+  const datasetAliases = new Set<string>();
+  dataset.ingredients.forEach((ingredient) =>
+    ingredient.aliases.forEach((alias) => {
+      datasetAliases.add(alias);
+      const existing = aliasesByName.get(alias);
+      if (!existing) {
+        upserts.push({
+          action: "insert",
+          entity: "alias",
+          key: `${alias} -> ${ingredient.name}`,
+          apply: async (tx, ids) =>
+            tx.ingredientAlias.create({
+              data: { alias, ingredientId: await ids.ingredient(ingredient.name) },
+            }),
+        });
+      } else if (existing.ingredient !== ingredient.name) {
+        upserts.push({
+          action: "update",
+          entity: "alias",
+          key: alias,
+          fields: { ingredient: { from: existing.ingredient, to: ingredient.name } },
+          apply: async (tx, ids) =>
+            tx.ingredientAlias.update({
+              where: { id: existing.id },
+              data: { ingredientId: await ids.ingredient(ingredient.name) },
+            }),
+        });
+      }
+    })
+  );
+
+  // ==================== DISEASES ====================
+  const diseasesByName = new Map(diseases.map((d) => [d.name, d]));
+  dataset.diseases.forEach(({ name, description, type }) => {
+    const existing = diseasesByName.get(name);
+    if (!existing) {
+      upserts.push({
+        action: "insert",
+        entity: "disease",
+        key: name,
+        apply: (tx) => tx.disease.create({ data: { name, description, type } }),
+      });
+      return;
+    }
+    const diff = diffFields(existing, { description, type });
+    if (diff) {
+      upserts.push({
+        action: "update",
+        entity: "disease",
+        key: name,
+        fields: diff.fields,
+        apply: (tx) =>
+          tx.disease.update({ where: { id: existing.id }, data: diff.data }),
+      });
+    }
+  });
+
+  // ==================== SOURCES ====================
+  // Shared records matched by url (label when there's none). A metadata change
+  // is one update that every claim citing the source picks up.
+  const sourcesByKey = new Map(storedSources.map((source) => [sourceKey(source), source]));
+  const wantedSources = datasetSources(dataset);
+  wantedSources.forEach((source) => {
+    const key = sourceKey(source);
+    const existing = sourcesByKey.get(key);
+    if (!existing) {
+      upserts.push({
+        action: "insert",
+        entity: "source",
+        key,
+        apply: (tx) =>
+          tx.source.create({ data: { ...sourceInput(source), ...submitted(submitter) } }),
+      });
+      return;
+    }
+    const { url: _url, snippet: _snippet, ...metadata } = source;
+    const diff = diffFields(
+      {
+        ...existing,
+        accessedAt: existing.accessedAt?.toISOString().slice(0, 10) ?? null,
+      },
+      metadata
+    );
+    if (diff) {
+      const review = resubmitted(existing, true, submitter);
+      upserts.push({
+        action: "update",
+        entity: "source",
+        key,
+        fields: { ...diff.fields, ...review?.fields },
+        apply: (tx) =>
+          tx.source.update({
+            where: { id: existing.id },
+            data: {
+              ...diff.data,
+              ...("accessedAt" in diff.data && {
+                accessedAt: sourceInput(source).accessedAt,
+              }),
+              ...review?.data,
+            },
+          }),
+      });
+    }
+  });
+
+  // Citations of an existing relation, matched by source: add the missing
+  // ones, update changed snippets, remove extras on prune. Returns whether
+  // any citation changes.
+  const planCitations = (
+    entity: "interaction" | "benefit" | "diseaseRelation",
+    key: string,
+    relationId: string,
+    current: CurrentCitation[],
+    wanted: DatasetSource[]
+  ) => {
+    const table = citationTables[entity];
+    const currentByKey = new Map(
+      current.map((citation) => [sourceKey(citation.source), citation])
+    );
+    const wantedKeys = new Set(wanted.map(sourceKey));
+    const planned = citationChanges.length + relationDeletes.length;
+    wanted.forEach((source) => {
+      const label = `${source.label} (${entity} ${key})`;
+      const existing = currentByKey.get(sourceKey(source));
+      if (!existing) {
+        citationChanges.push({
+          action: "insert",
+          entity: "citation",
+          key: label,
+          apply: async (tx, ids) =>
+            table.create(tx, relationId, await ids.source(source), source.snippet),
+        });
+        return;
+      }
+      const diff = diffFields(existing, { snippet: source.snippet });
+      if (diff) {
+        citationChanges.push({
+          action: "update",
+          entity: "citation",
+          key: label,
+          fields: diff.fields,
+          apply: (tx) => table.update(tx, existing.id, source.snippet),
+        });
+      }
+    });
+    if (prune) {
+      current
+        .filter((citation) => !wantedKeys.has(sourceKey(citation.source)))
+        .forEach((citation) =>
+          relationDeletes.unshift({
+            action: "delete",
+            entity: "citation",
+            key: `${citation.source.label} (${entity} ${key})`,
+            apply: (tx) => table.remove(tx, citation.id),
+          })
+        );
+    }
+    return citationChanges.length + relationDeletes.length > planned;
+  };
+
+  // ==================== INGREDIENT PAIRS ====================
+  const planPairs = (
+    entity: "interaction" | "benefit",
+    current: CurrentPair[],
+    wanted: DatasetPair[]
+  ) => {
+    const table = pairTables[entity];
+    const currentByKey = new Map(
+      current.map((row) => [pairKey(row.ingredientA.name, row.ingredientB.name), row])
+    );
+    const wantedKeys = new Set<string>();
+
+    wanted.forEach((pair) => {
+      const key = pairKey(...pair.ingredients);
+      const label = pair.ingredients.join(" + ");
+      wantedKeys.add(key);
+      const existing = currentByKey.get(key);
+
+      if (!existing) {
+        upserts.push({
+          action: "insert",
+          entity,
+          key: label,
+          apply: async (tx, ids) =>
+            table.create(tx, {
+              ...canonicalPair(
+                await ids.ingredient(pair.ingredients[0]),
+                await ids.ingredient(pair.ingredients[1])
+              ),
+              ...relationValues(pair),
+              ...submitted(submitter),
+              sources: await citationLinks(pair.sources, ids),
+            }),
+        });
+        return;
+      }
+
+      const diff = diffFields(existing, relationValues(pair));
+      const citationsChanged = planCitations(
+        entity,
+        label,
+        existing.id,
+        existing.sources,
+        pair.sources
+      );
+      const review = resubmitted(existing, !!diff || citationsChanged, submitter);
+      if (diff || review) {
+        upserts.push({
+          action: "update",
+          entity,
+          key: label,
+          fields: { ...diff?.fields, ...review?.fields },
+          apply: (tx) => table.update(tx, existing.id, { ...diff?.data, ...review?.data }),
+        });
+      }
+    });
+
+    if (!prune) return;
+    current
+      .filter(
+        (row) => !wantedKeys.has(pairKey(row.ingredientA.name, row.ingredientB.name))
+      )
+      .forEach((row) =>
+        relationDeletes.push({
+          action: "delete",
+          entity,
+          key: `${row.ingredientA.name} + ${row.ingredientB.name}`,
+          apply: (tx) => table.remove(tx, row.id),
+        })
+      );
+  };
+
+  planPairs("interaction", interactions, dataset.interactions);
+  planPairs("benefit", benefits, dataset.benefits);
+
+  // ==================== DISEASE RELATIONS ====================
+  const relationsByKey = new Map(
+    diseaseRelations.map((row) => [
+      diseaseRelationKey(row.disease.name, row.ingredient.name, row.type),
+      row,
+    ])
+  );
+  const wantedRelationKeys = new Set<string>();
+  dataset.diseaseRelations.forEach((relation: DatasetDiseaseRelation) => {
+    const key = diseaseRelationKey(relation.disease, relation.ingredient, relation.type);
+    const label = `${relation.disease} / ${relation.ingredient} (${relation.type})`;
+    wantedRelationKeys.add(key);
+    const existing = relationsByKey.get(key);
+
+    if (!existing) {
+      upserts.push({
+        action: "insert",
+        entity: "diseaseRelation",
+        key: label,
+        apply: async (tx, ids) =>
+          tx.diseaseIngredient.create({
+            data: {
+              diseaseId: await ids.disease(relation.disease),
+              ingredientId: await ids.ingredient(relation.ingredient),
+              type: relation.type,
+              ...relationValues(relation),
+              ...submitted(submitter),
+              sources: await citationLinks(relation.sources, ids),
+            },
+          }),
+      });
+      return;
+    }
+
+    const diff = diffFields(existing, relationValues(relation));
+    const citationsChanged = planCitations(
+      "diseaseRelation",
+      label,
+      existing.id,
+      existing.sources,
+      relation.sources
+    );
+    const review = resubmitted(existing, !!diff || citationsChanged, submitter);
+    if (diff || review) {
+      upserts.push({
+        action: "update",
+        entity: "diseaseRelation",
+        key: label,
+        fields: { ...diff?.fields, ...review?.fields },
+        apply: (tx) =>
+          tx.diseaseIngredient.update({
+            where: { id: existing.id },
+            data: { ...diff?.data, ...review?.data },
+          }),
+      });
+    }
+  });
+
+  if (prune) {
+    diseaseRelations
+      .filter(
+        (row) =>
+          !wantedRelationKeys.has(
+            diseaseRelationKey(row.disease.name, row.ingredient.name, row.type)
+          )
+      )
+      .forEach((row) =>
+        relationDeletes.push({
+          action: "delete",
+          entity: "diseaseRelation",
+          key: `${row.disease.name} / ${row.ingredient.name} (${row.type})`,
+          apply: (tx) => tx.diseaseIngredient.delete({ where: { id: row.id } }),
+        })
+      );
+
+    // Sources no claim in the dataset cites anymore
+    const wantedSourceKeys = new Set(wantedSources.map(sourceKey));
+    storedSources
+      .filter((source) => !wantedSourceKeys.has(sourceKey(source)))
+      .forEach((source) =>
+        entityDeletes.push({
+          action: "delete",
+          entity: "source",
+          key: sourceKey(source),
+          apply: (tx) => tx.source.delete({ where: { id: source.id } }),
+        })
+      );
+
+    const datasetIngredients = new Set(dataset.ingredients.map((i) => i.name));
+    const datasetDiseases = new Set(dataset.diseases.map((d) => d.name));
+    aliasesByName.forEach((alias) => {
+      if (datasetAliases.has(alias.alias)) return;
+      entityDeletes.push({
+        action: "delete",
+        entity: "alias",
+        key: alias.alias,
+        apply: (tx) => tx.ingredientAlias.delete({ where: { id: alias.id } }),
+      });
+    });
+    diseases
+      .filter((d) => !datasetDiseases.has(d.name))
+      .forEach((d) =>
+        entityDeletes.push({
+          action: "delete",
+          entity: "disease",
+          key: d.name,
+          apply: (tx) => tx.disease.delete({ where: { id: d.id } }),
+        })
+      );
+    ingredients
+      .filter((i) => !datasetIngredients.has(i.name))
+      .forEach((i) =>
+        entityDeletes.push({
+          action: "delete",
+          entity: "ingredient",
+          key: i.name,
+          apply: (tx) => tx.ingredient.delete({ where: { id: i.id } }),
+        })
+      );
+  }
+
+  // ==================== CONTRADICTIONS ====================
+  // Rows kept from the database (not pruned) can contradict dataset rows.
+  // Retired rows don't count, as in lib/contradictions, and a dataset row
+  // whose existing row is retired stays retired when it's updated.
+  const kept = <T extends { status: string }>(rows: T[], isWanted: (row: T) => boolean) =>
+    prune ? [] : rows.filter((row) => isActive(row) && !isWanted(row));
+  const retiredKeys = <T extends { status: string }>(rows: T[], key: (row: T) => string) =>
+    new Set(rows.filter((row) => !isActive(row)).map(key));
+  const currentPairKey = (row: CurrentPair) =>
+    pairKey(row.ingredientA.name, row.ingredientB.name);
+  const pairState = (
+    current: CurrentPair[],
+    wanted: DatasetPair[]
+  ) => {
+    const wantedKeys = new Set(wanted.map((p) => pairKey(...p.ingredients)));
+    const retired = retiredKeys(current, currentPairKey);
+    return new Map([
+      ...kept(current, (row) => wantedKeys.has(currentPairKey(row))).map(
+        (row) => [currentPairKey(row), row.contextDependent] as const
+      ),
+      ...wanted
+        .filter((p) => !retired.has(pairKey(...p.ingredients)))
+        .map((p) => [pairKey(...p.ingredients), p.contextDependent] as const),
+    ]);
+  };
+  const interactionState = pairState(interactions, dataset.interactions);
+  const benefitState = pairState(benefits, dataset.benefits);
+  benefitState.forEach((contextDependent, key) => {
+    const interaction = interactionState.get(key);
+    if (interaction === false && !contextDependent) {
+      errors.push(
+        `"${key.split("\u0000").join(" + ")}" would be both an interaction and a benefit; mark one of them contextDependent`
+      );
+    }
+  });
+
+  const currentRelationKey = (row: (typeof diseaseRelations)[number]) =>
+    diseaseRelationKey(row.disease.name, row.ingredient.name, row.type);
+  const retiredRelations = retiredKeys(diseaseRelations, currentRelationKey);
+  const relationState = new Map([
+    ...kept(diseaseRelations, (row) => wantedRelationKeys.has(currentRelationKey(row))).map(
+      (row) => [currentRelationKey(row), row.contextDependent] as const
+    ),
+    ...dataset.diseaseRelations
+      .map(
+        (r) =>
+          [diseaseRelationKey(r.disease, r.ingredient, r.type), r.contextDependent] as const
+      )
+      .filter(([key]) => !retiredRelations.has(key)),
+  ]);
+  relationState.forEach((contextDependent, key) => {
+    const [disease, ingredient, type] = key.split("\u0000") as [string, string, string];
+    if (type !== "BENEFICIAL") return;
+    const avoid = relationState.get(diseaseRelationKey(disease, ingredient, "AVOID"));
+    if (avoid === false && !contextDependent) {
+      errors.push(
+        `"${ingredient}" would be both avoid and beneficial for "${disease}"; mark one of them contextDependent`
+      );
+    }
+  });
+
+  return {
+    prune,
+    changes: [...upserts, ...citationChanges, ...relationDeletes, ...entityDeletes],
+    errors,
+  };
+};
+
+// Apply every change in one transaction
+// Every row the sync touches is recorded in the audit log under `actor`
+export const applySync = async (plan: SyncPlan, actor: string) => {
+  if (plan.errors.length > 0) {
+    throw new Error(`Sync plan has ${plan.errors.length} error(s)`);
+  }
+
+  await prisma.$transaction(
+    async (tx) => {
+      // Names -> ids, including rows inserted earlier in this transaction
+      const cache = new Map<string, string>();
+      const lookup =
+        (kind: "ingredient" | "disease") => async (name: string) => {
+          const cached = cache.get(`${kind}:${name}`);
+          if (cached) return cached;
+          const row =
+            kind === "ingredient"
+              ? await tx.ingredient.findUniqueOrThrow({ where: { name } })
+              : await tx.disease.findUniqueOrThrow({ where: { name } });
+          cache.set(`${kind}:${name}`, row.id);
+          return row.id;
+        };
+      const source = async (wanted: { label: string; url: string | null }) => {
+        const cached = cache.get(`source:${sourceKey(wanted)}`);
+        if (cached) return cached;
+        const row = await tx.source.findFirstOrThrow({
+          where: wanted.url ? { url: wanted.url } : { url: null, label: wanted.label },
+        });
+        cache.set(`source:${sourceKey(wanted)}`, row.id);
+        return row.id;
+      };
+      const ids = {
+        ingredient: lookup("ingredient"),
+        disease: lookup("disease"),
+        source,
+      };
+
+      await auditAll(tx, actor, async () => {
+        for (const change of plan.changes) {
+          await change.apply(tx, ids);
+        }
+      });
+    },
+    { timeout: 120_000 }
+  );
+};
@@ -0,0 +1,19 @@
+// Field-level validation errors shared by the admin, auth and API key
+// endpoints, which report every problem with the input at once.
+
+export type FieldErrors = Record<string, string>;
+
+export class ValidationError extends Error {
+  constructor(
+    readonly fields: FieldErrors,
+    // 409 when the input is well formed but clashes with an existing row
+    readonly status: 400 | 409 = 400
+  ) {
+    super(
+      Object.entries(fields)
+        .map(([field, problem]) => `"${field}" ${problem}`)
+        .join("; ")
+    );
+    this.name = "ValidationError";
+  }
+}
@@ -0,0 +1,25 @@
+// How well a relation is supported, kept apart from `severity` (how strong the
+// effect is). Clients pass `minEvidence` to hide weakly supported claims.
+
+export const EVIDENCE_GRADES = [
+  "strong", // consistent clinical trials or meta-analyses
+  "moderate", // some trials, or consistent observational studies
+  "limited", // few or small studies, mixed results
+  "expert-opinion", // guidance without direct studies (default for ungraded rows)
+] as const;
+
+export type EvidenceGrade = (typeof EVIDENCE_GRADES)[number];
+
+export const DEFAULT_EVIDENCE_GRADE: EvidenceGrade = "expert-opinion";
+
+export const isEvidenceGrade = (value: unknown): value is EvidenceGrade =>
+  EVIDENCE_GRADES.includes(value as EvidenceGrade);
+
+// `min` and every stronger grade, as a Prisma filter on `evidence`
+export const evidenceAtLeast = (min: EvidenceGrade) => ({
+  in: EVIDENCE_GRADES.slice(0, EVIDENCE_GRADES.indexOf(min) + 1),
+});
+
+// The better supported of two grades
+export const strongerEvidence = (a: EvidenceGrade, b: EvidenceGrade) =>
+  EVIDENCE_GRADES.indexOf(a) <= EVIDENCE_GRADES.indexOf(b) ? a : b;
@@ -0,0 +1,158 @@
+// Typo-tolerant matching used by the search endpoints. The catalogue is small
+// enough that candidates are scored in memory rather than in Postgres.
+
+export type MatchedSpan = { start: number; end: number };
+
+export type FuzzyMatch = {
+  score: number; // 0-1, higher is closer
+  prefix: boolean; // text (or one of its words) starts with the query
+  span: MatchedSpan; // [start, end) of the best matching part of the text
+};
+
+export type FuzzyCandidate<T> = {
+  item: T;
+  name: string;
+  aliases?: string[];
+  popularity?: number;
+};
+
+export type RankedCandidate<T> = {
+  item: T;
+  name: string;
+  popularity: number;
+  match: FuzzyMatch;
+  // Alias that produced the match (span is relative to it), null for the name
+  matchedAlias: string | null;
+};
+
+// One typo allowed per this many query characters, at least one from
+// MIN_TYPO_LENGTH characters on ("egs" finds "eggs"); shorter queries must match exactly
+const CHARS_PER_TYPO = 4;
+const MIN_TYPO_LENGTH = 3;
+
+const allowedTypos = (query: string) =>
+  query.length < MIN_TYPO_LENGTH ? 0 : Math.max(1, Math.floor(query.length / CHARS_PER_TYPO));
+
+// Optimal string alignment distance: Levenshtein plus swapping two adjacent
+// characters as a single edit, the most common typo ("rcie" for "rice")
+export const editDistance = (a: string, b: string): number => {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        current[j - 1]! + 1,
+        previous[j]! + 1,
+        previous[j - 1]! + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j]!, beforePrevious[j - 2]! + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length]!;
+};
+
+const trigrams = (text: string): Set<string> => {
+  const padded = `  ${text} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+};
+
+// Jaccard similarity of the two strings' trigram sets (same idea as pg_trgm)
+export const trigramSimilarity = (a: string, b: string): number => {
+  const gramsA = trigrams(a);
+  const gramsB = trigrams(b);
+  let shared = 0;
+  gramsA.forEach((gram) => {
+    if (gramsB.has(gram)) shared++;
+  });
+  const total = gramsA.size + gramsB.size - shared;
+  return total === 0 ? 0 : shared / total;
+};
+
+// Find the slice of `text` closest to `query` by edit distance, trying
+// windows one character shorter and longer than the query
+const bestWindow = (query: string, text: string) => {
+  let best = { distance: Infinity, span: { start: 0, end: text.length } };
+  const lengths = [query.length, query.length - 1, query.length + 1];
+  for (const length of lengths) {
+    if (length <= 0 || length > text.length) continue;
+    for (let start = 0; start + length <= text.length; start++) {
+      const distance = editDistance(query, text.slice(start, start + length));
+      if (distance < best.distance) {
+        best = { distance, span: { start, end: start + length } };
+      }
+    }
+  }
+  if (best.distance === Infinity) {
+    best = { distance: editDistance(query, text), span: best.span };
+  }
+  return best;
+};
+
+// Score how well `query` matches `text`; both are expected to be normalized
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+  if (!query || !text) return null;
+
+  const index = text.indexOf(query);
+  const window =
+    index >= 0
+      ? { distance: 0, span: { start: index, end: index + query.length } }
+      : bestWindow(query, text);
+
+  if (window.distance > allowedTypos(query)) return null;
+  const windowSimilarity = 1 - window.distance / query.length;
+
+  // Mostly "does the query appear in the text", with a bonus for covering all of it
+  const score =
+    0.7 * windowSimilarity + 0.3 * trigramSimilarity(query, text);
+  const prefix =
+    text.startsWith(query) ||
+    text.split(/[\s-]+/).some((word) => word.startsWith(query));
+
+  return {
+    score: Math.round(score * 1000) / 1000,
+    prefix,
+    span: window.span,
+  };
+};
+
+// Ranking used for every fuzzy result list: prefix matches first, then
+// similarity, then popularity, then name
+const compareMatches = (
+  a: { match: FuzzyMatch; popularity: number; name: string },
+  b: { match: FuzzyMatch; popularity: number; name: string }
+) =>
+  Number(b.match.prefix) - Number(a.match.prefix) ||
+  b.match.score - a.match.score ||
+  b.popularity - a.popularity ||
+  a.name.localeCompare(b.name);
+
+// Match the query against each candidate's name and aliases, keep the best
+// match per candidate and return the top `limit` in ranking order
+export const rankFuzzy = <T>(
+  query: string,
+  candidates: FuzzyCandidate<T>[],
+  limit: number
+): RankedCandidate<T>[] => {
+  const ranked: RankedCandidate<T>[] = [];
+  candidates.forEach(({ item, name, aliases = [], popularity = 0 }) => {
+    let best: RankedCandidate<T> | null = null;
+    for (const alias of [null, ...aliases]) {
+      const match = fuzzyMatch(query, alias ?? name);
+      if (!match) continue;
+      const entry = { item, name, popularity, match, matchedAlias: alias };
+      if (!best || compareMatches(entry, best) < 0) best = entry;
+    }
+    if (best) ranked.push(best);
+  });
+  return ranked.sort(compareMatches).slice(0, limit);
+};
@@ -0,0 +1,56 @@
+import { SourceInfo } from "./sources";
+import { ConflictResolution } from "./conflictPolicy";
+
+// Combined ranking for disease guide items that several diseases agree on.
+// Each disease relation contributes severity x weight of the disease type,
+// so a food flagged by three chronic conditions outranks one flagged by a
+// single acute one even if the single relation is more severe.
+
+export const DISEASE_TYPE_WEIGHTS: Record<string, number> = {
+  chronic: 1,
+  acute: 0.7, // short-lived, so it should weigh less than a long-term condition
+};
+
+export type GuideBreakdownEntry = {
+  disease: string;
+  diseaseType: string;
+  reason: string;
+  severity: number;
+  evidence: string;
+  weight: number;
+  contribution: number;
+  sources: SourceInfo[];
+};
+
+// One food in a guide list, with its per-disease breakdown
+export type GuideItem = {
+  food: string;
+  matchedAlias: string | null;
+  score: number;
+  severity: number; // highest single severity
+  affectedDiseases: string[];
+  breakdown: GuideBreakdownEntry[];
+};
+
+// A food that's beneficial for one requested disease and to-avoid for another
+export type GuideConflict = {
+  food: string;
+  avoid: GuideBreakdownEntry[];
+  beneficial: GuideBreakdownEntry[];
+  resolution: ConflictResolution;
+};
+
+export const diseaseTypeWeight = (diseaseType: string) =>
+  DISEASE_TYPE_WEIGHTS[diseaseType] ?? 1;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const breakdownEntry = (
+  entry: Omit<GuideBreakdownEntry, "weight" | "contribution">
+): GuideBreakdownEntry => {
+  const weight = diseaseTypeWeight(entry.diseaseType);
+  return { ...entry, weight, contribution: round(entry.severity * weight) };
+};
+
+export const combinedScore = (breakdown: GuideBreakdownEntry[]) =>
+  round(breakdown.reduce((sum, entry) => sum + entry.contribution, 0));
@@ -0,0 +1,29 @@
+import { Prisma } from "@prisma/client";
+
+// IngredientInteraction / IngredientBenefit rows describe unordered pairs.
+// They are stored with ingredientAId < ingredientBId so (spinach, milk) and
+// (milk, spinach) land on the same unique key. The database enforces this with
+// CHECK constraints, which the Prisma schema can't express: they're added by
+// `npm run db:push`, `db:seed`, `db:import` and `db:canonicalize-pairs`.
+
+export const canonicalPair = (firstId: string, secondId: string) =>
+  firstId < secondId
+    ? { ingredientAId: firstId, ingredientBId: secondId }
+    : { ingredientAId: secondId, ingredientBId: firstId };
+
+export const PAIR_TABLES = ["IngredientInteraction", "IngredientBenefit"] as const;
+
+// (Re)adds the CHECK constraint on both pair tables. Fails if a stored pair
+// isn't canonical; `db:canonicalize-pairs` fixes those first.
+export const addCanonicalPairChecks = async (tx: Prisma.TransactionClient) => {
+  for (const table of PAIR_TABLES) {
+    // COLLATE "C" compares byte-wise, matching the JS string comparison above
+    const constraint = `${table}_canonical_pair`;
+    await tx.$executeRawUnsafe(
+      `ALTER TABLE "${table}" DROP CONSTRAINT IF EXISTS "${constraint}"`
+    );
+    await tx.$executeRawUnsafe(
+      `ALTER TABLE "${table}" ADD CONSTRAINT "${constraint}" CHECK ("ingredientAId" COLLATE "C" < "ingredientBId" COLLATE "C")`
+    );
+  }
+};
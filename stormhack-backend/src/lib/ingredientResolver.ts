@@ -0,0 +1,52 @@
+import { Ingredient } from "@prisma/client";
+import { prisma } from "./prisma";
+
+export type ResolvedIngredient = {
+  ingredient: Ingredient;
+  // Alias the lookup went through, null when the canonical name matched
+  matchedAlias: string | null;
+};
+
+// Lowercase and collapse whitespace so "Chick  Peas" and "chick peas" compare equal
+export const normalizeIngredientName = (name: string) =>
+  name.trim().toLowerCase().replace(/\s+/g, " ");
+
+// Resolve a user-supplied name to its canonical ingredient (name first, then aliases)
+export const resolveIngredient = async (
+  name: string
+): Promise<ResolvedIngredient | null> => {
+  const resolved = await resolveIngredients([name]);
+  return resolved.get(normalizeIngredientName(name)) ?? null;
+};
+
+// Batch version of resolveIngredient. Keys of the returned map are the
+// normalized input names; names that match nothing are left out.
+export const resolveIngredients = async (
+  names: string[]
+): Promise<Map<string, ResolvedIngredient>> => {
+  const normalized = Array.from(new Set(names.map(normalizeIngredientName)));
+  const resolved = new Map<string, ResolvedIngredient>();
+
+  const ingredients = await prisma.ingredient.findMany({
+    where: { name: { in: normalized } },
+  });
+  ingredients.forEach((ingredient) => {
+    resolved.set(ingredient.name, { ingredient, matchedAlias: null });
+  });
+
+  const unmatched = normalized.filter((name) => !resolved.has(name));
+  if (unmatched.length > 0) {
+    const aliases = await prisma.ingredientAlias.findMany({
+      where: { alias: { in: unmatched } },
+      include: { ingredient: true },
+    });
+    aliases.forEach((alias) => {
+      resolved.set(alias.alias, {
+        ingredient: alias.ingredient,
+        matchedAlias: alias.alias,
+      });
+    });
+  }
+
+  return resolved;
+};
@@ -0,0 +1,428 @@
+import { createHash } from "crypto";
+import {
+  BenefitSource,
+  Prisma,
+  Disease,
+  DiseaseIngredient,
+  DiseaseIngredientSource,
+  Ingredient,
+  IngredientAlias,
+  IngredientBenefit,
+  IngredientInteraction,
+  InteractionSource,
+  Source,
+} from "@prisma/client";
+import { prisma } from "./prisma";
+import { Dataset, DatasetSource } from "./dataset";
+import { EvidenceGrade } from "./evidence";
+import { auditAll } from "./audit";
+import { addCanonicalPairChecks } from "./ingredientPairs";
+import { findUnresolvedClaims } from "./contradictions";
+
+// Snapshot of the whole knowledge base (every ingredient, alias, disease,
+// relation, Source and citation link, ids and timestamps included) as one JSON bundle.
+// The checksum covers `data`, so a bundle edited by hand is rejected on import.
+// Bundles of an older version are upgraded on import when there's a step for
+// it in BUNDLE_UPGRADES; newer ones need a newer importer.
+
+export const BUNDLE_FORMAT = "stormhack-knowledge-base";
+export const BUNDLE_VERSION = 3; // 2: sources shared through citation tables, 3: review status
+
+// Prisma row with its Date fields as ISO strings, as they appear in JSON
+type Serialized<T> = {
+  [K in keyof T]: T[K] extends Date
+    ? string
+    : T[K] extends Date | null
+      ? string | null
+      : T[K];
+};
+
+export type BundleData = {
+  ingredients: Serialized<Ingredient>[];
+  aliases: Serialized<IngredientAlias>[];
+  diseases: Serialized<Disease>[];
+  interactions: Serialized<IngredientInteraction>[];
+  benefits: Serialized<IngredientBenefit>[];
+  diseaseRelations: Serialized<DiseaseIngredient>[];
+  sources: Serialized<Source>[];
+  interactionSources: Serialized<InteractionSource>[];
+  benefitSources: Serialized<BenefitSource>[];
+  diseaseRelationSources: Serialized<DiseaseIngredientSource>[];
+};
+
+const BUNDLE_SECTIONS = [
+  "ingredients",
+  "aliases",
+  "diseases",
+  "interactions",
+  "benefits",
+  "diseaseRelations",
+  "sources",
+  "interactionSources",
+  "benefitSources",
+  "diseaseRelationSources",
+] as const satisfies readonly (keyof BundleData)[];
+
+export type KnowledgeBundle = {
+  format: typeof BUNDLE_FORMAT;
+  version: typeof BUNDLE_VERSION;
+  exportedAt: string;
+  counts: Record<keyof BundleData, number>;
+  checksum: string; // sha256 of JSON.stringify(data)
+  data: BundleData;
+};
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BundleError";
+  }
+}
+
+const serialize = <T extends object>(row: T) =>
+  Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [
+      key,
+      value instanceof Date ? value.toISOString() : value,
+    ])
+  ) as Serialized<T>;
+
+const checksum = (data: BundleData) =>
+  `sha256:${createHash("sha256").update(JSON.stringify(data)).digest("hex")}`;
+
+const countRows = (data: BundleData) =>
+  Object.fromEntries(
+    Object.entries(data).map(([key, rows]) => [key, rows.length])
+  ) as KnowledgeBundle["counts"];
+
+export const exportBundle = async (): Promise<KnowledgeBundle> => {
+  // Ordered by id so the same database always gives the same checksum
+  const orderBy = { id: "asc" } as const;
+  const [
+    ingredients,
+    aliases,
+    diseases,
+    interactions,
+    benefits,
+    diseaseRelations,
+    sources,
+    interactionSources,
+    benefitSources,
+    diseaseRelationSources,
+  ] = await prisma.$transaction([
+    prisma.ingredient.findMany({ orderBy }),
+    prisma.ingredientAlias.findMany({ orderBy }),
+    prisma.disease.findMany({ orderBy }),
+    prisma.ingredientInteraction.findMany({ orderBy }),
+    prisma.ingredientBenefit.findMany({ orderBy }),
+    prisma.diseaseIngredient.findMany({ orderBy }),
+    prisma.source.findMany({ orderBy }),
+    prisma.interactionSource.findMany({ orderBy }),
+    prisma.benefitSource.findMany({ orderBy }),
+    prisma.diseaseIngredientSource.findMany({ orderBy }),
+  ]);
+
+  const data: BundleData = {
+    ingredients: ingredients.map(serialize),
+    aliases: aliases.map(serialize),
+    diseases: diseases.map(serialize),
+    interactions: interactions.map(serialize),
+    benefits: benefits.map(serialize),
+    diseaseRelations: diseaseRelations.map(serialize),
+    sources: sources.map(serialize),
+    interactionSources: interactionSources.map(serialize),
+    benefitSources: benefitSources.map(serialize),
+    diseaseRelationSources: diseaseRelationSources.map(serialize),
+  };
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    counts: countRows(data),
+    checksum: checksum(data),
+    data,
+  };
+};
+
+type BundleRows = Record<string, Record<string, unknown>[] | undefined>;
+
+// Relations and sources in a version 2 bundle predate the review workflow and
+// were served, so they come in approved, as db:add-review-status does
+const REVIEW_DEFAULTS = {
+  status: "approved",
+  submittedBy: null,
+  submittedAt: null,
+  reviewedBy: null,
+  reviewedAt: null,
+};
+
+// Steps bringing `data` from the key's version to the next one. Version 1
+// (a Source row per citation) has none: restore it with the release that
+// wrote it, run db:share-sources and export again.
+const BUNDLE_UPGRADES: Record<number, (data: BundleRows) => BundleRows> = {
+  2: (data) => {
+    const withReview = (rows: Record<string, unknown>[] | undefined) =>
+      rows?.map((row) => ({ ...row, ...REVIEW_DEFAULTS }));
+    return {
+      ...data,
+      interactions: withReview(data.interactions),
+      benefits: withReview(data.benefits),
+      diseaseRelations: withReview(data.diseaseRelations),
+      sources: withReview(data.sources),
+    };
+  },
+};
+
+const upgrade = (version: unknown, data: BundleRows): BundleData => {
+  if (typeof version !== "number" || version > BUNDLE_VERSION) {
+    throw new BundleError(
+      `Unsupported bundle version ${version} (this importer reads up to ${BUNDLE_VERSION})`
+    );
+  }
+  let upgraded = data;
+  for (let from = version; from < BUNDLE_VERSION; from++) {
+    const step = BUNDLE_UPGRADES[from];
+    if (!step) {
+      throw new BundleError(
+        `Bundle version ${from} can't be upgraded to ${BUNDLE_VERSION}; ` +
+          "restore it with the release that exported it, then export it again"
+      );
+    }
+    upgraded = step(upgraded);
+  }
+  return upgraded as unknown as BundleData;
+};
+
+// Throws BundleError unless this looks like an untouched, complete bundle we
+// can read. An older bundle comes back upgraded to BUNDLE_VERSION, with a
+// checksum of the upgraded data.
+export const verifyBundle = (bundle: unknown): KnowledgeBundle => {
+  const candidate = bundle as Partial<KnowledgeBundle> | null;
+  if (candidate?.format !== BUNDLE_FORMAT || !candidate.data) {
+    throw new BundleError("Not a knowledge base bundle");
+  }
+  if (candidate.checksum !== checksum(candidate.data)) {
+    throw new BundleError("Checksum mismatch, the bundle was modified or truncated");
+  }
+
+  const data = upgrade(candidate.version, candidate.data as unknown as BundleRows);
+
+  // Every section must be there, even if empty, and match the exported counts
+  const missing = BUNDLE_SECTIONS.filter((section) => !Array.isArray(data[section]));
+  if (missing.length > 0) {
+    throw new BundleError(`The bundle has no ${missing.join(", ")} section`);
+  }
+  const wrongCounts = BUNDLE_SECTIONS.filter(
+    (section) => candidate.counts?.[section] !== data[section].length
+  );
+  if (wrongCounts.length > 0) {
+    throw new BundleError(`Row counts don't match the data for ${wrongCounts.join(", ")}`);
+  }
+
+  return {
+    ...(candidate as KnowledgeBundle),
+    version: BUNDLE_VERSION,
+    counts: countRows(data),
+    checksum: checksum(data),
+    data,
+  };
+};
+
+type Tx = Prisma.TransactionClient;
+
+const TABLE_COUNTS: Record<keyof BundleData, (tx: Tx) => Promise<number>> = {
+  ingredients: (tx) => tx.ingredient.count(),
+  aliases: (tx) => tx.ingredientAlias.count(),
+  diseases: (tx) => tx.disease.count(),
+  interactions: (tx) => tx.ingredientInteraction.count(),
+  benefits: (tx) => tx.ingredientBenefit.count(),
+  diseaseRelations: (tx) => tx.diseaseIngredient.count(),
+  sources: (tx) => tx.source.count(),
+  interactionSources: (tx) => tx.interactionSource.count(),
+  benefitSources: (tx) => tx.benefitSource.count(),
+  diseaseRelationSources: (tx) => tx.diseaseIngredientSource.count(),
+};
+
+// A replace must not wipe a table the bundle has nothing for: an empty section
+// over rows in the database is far more likely a broken export than intended
+const checkReplaceable = async (tx: Tx, data: BundleData) => {
+  const counts = await Promise.all(
+    BUNDLE_SECTIONS.map(async (section) => ({
+      section,
+      existing: await TABLE_COUNTS[section](tx),
+    }))
+  );
+  const wiped = counts.filter(({ section, existing }) => existing > 0 && data[section].length === 0);
+  if (wiped.length > 0) {
+    throw new BundleError(
+      `The bundle has no ${wiped.map(({ section }) => section).join(", ")}; replacing ` +
+        `would delete ${wiped.map(({ existing, section }) => `${existing} ${section}`).join(", ")}. ` +
+        "Restore it into an empty database instead"
+    );
+  }
+};
+
+// Without replace, every table the bundle writes must be empty, so restored
+// ids can't collide with rows already there. Link checks belong to sources
+// and can't outlive them; the audit log is history, kept across restores, and
+// the import adds its own entries to it.
+const checkEmpty = async (tx: Tx) => {
+  const counts = await Promise.all(
+    BUNDLE_SECTIONS.map(async (section) => ({
+      section,
+      existing: await TABLE_COUNTS[section](tx),
+    }))
+  );
+  const filled = counts.filter(({ existing }) => existing > 0);
+  if (filled.length > 0) {
+    throw new BundleError(
+      `The database isn't empty (${filled
+        .map(({ existing, section }) => `${existing} ${section}`)
+        .join(", ")}); restore with replace to overwrite it`
+    );
+  }
+};
+
+// The writers' contradiction guards don't see rows inserted in bulk, so the
+// bundle is checked as a whole before anything is written
+const checkContradictions = (data: BundleData) => {
+  const { pairs, diseaseRelations } = findUnresolvedClaims(data);
+  const ingredientNames = new Map(data.ingredients.map((i) => [i.id, i.name]));
+  const diseaseNames = new Map(data.diseases.map((d) => [d.id, d.name]));
+  const found = [
+    ...pairs.map(
+      (p) => `"${ingredientNames.get(p.ingredientAId)}" + "${ingredientNames.get(p.ingredientBId)}"`
+    ),
+    ...diseaseRelations.map(
+      (r) => `"${ingredientNames.get(r.ingredientId)}" for "${diseaseNames.get(r.diseaseId)}"`
+    ),
+  ];
+  if (found.length > 0) {
+    throw new BundleError(
+      `The bundle has unresolved contradictions (${found.join(", ")}); ` +
+        "mark one side of each contextDependent or retire it"
+    );
+  }
+};
+
+// Restore a bundle with its original ids. The database must be empty unless
+// `replace` is set, in which case existing data is deleted first (refused when
+// the bundle has no rows for a table that has some). A bundle with unresolved
+// contradictions is refused. The rows removed and restored are recorded in the
+// audit log under `actor`.
+export const importBundle = async (
+  bundle: KnowledgeBundle,
+  { replace = false, actor = "bundle import" } = {}
+) => {
+  const { data } = verifyBundle(bundle);
+  checkContradictions(data);
+
+  await prisma.$transaction(
+    async (tx) =>
+      auditAll(tx, actor, async () => {
+        if (replace) {
+          await checkReplaceable(tx, data);
+          await tx.source.deleteMany();
+          await tx.ingredientAlias.deleteMany();
+          await tx.diseaseIngredient.deleteMany();
+          await tx.ingredientBenefit.deleteMany();
+          await tx.ingredientInteraction.deleteMany();
+          await tx.disease.deleteMany();
+          await tx.ingredient.deleteMany();
+        } else {
+          await checkEmpty(tx);
+        }
+
+        await addCanonicalPairChecks(tx);
+        await tx.ingredient.createMany({ data: data.ingredients });
+        await tx.ingredientAlias.createMany({ data: data.aliases });
+        await tx.disease.createMany({ data: data.diseases });
+        await tx.ingredientInteraction.createMany({ data: data.interactions });
+        await tx.ingredientBenefit.createMany({ data: data.benefits });
+        await tx.diseaseIngredient.createMany({ data: data.diseaseRelations });
+        await tx.source.createMany({ data: data.sources });
+        await tx.interactionSource.createMany({ data: data.interactionSources });
+        await tx.benefitSource.createMany({ data: data.benefitSources });
+        await tx.diseaseIngredientSource.createMany({ data: data.diseaseRelationSources });
+      }),
+    { timeout: 120_000 }
+  );
+
+  return countRows(data);
+};
+
+// Same content in the curated CSV shape (names instead of ids)
+export const bundleToDataset = ({ data }: KnowledgeBundle): Dataset => {
+  const ingredientNames = new Map(data.ingredients.map((i) => [i.id, i.name]));
+  const diseaseNames = new Map(data.diseases.map((d) => [d.id, d.name]));
+  const sources = new Map(data.sources.map((s) => [s.id, s]));
+  const cited = (links: { sourceId: string; snippet: string | null }[]) =>
+    links.map(({ sourceId, snippet }): DatasetSource => {
+      const s = sources.get(sourceId)!;
+      return {
+        label: s.label,
+        url: s.url,
+        publisher: s.publisher,
+        year: s.year,
+        accessedAt: s.accessedAt ? s.accessedAt.slice(0, 10) : null,
+        snippet,
+        sourceType: s.sourceType,
+      };
+    });
+  const pair = (
+    row: BundleData["interactions"][number],
+    links: { sourceId: string; snippet: string | null }[]
+  ) => ({
+    ingredients: [
+      ingredientNames.get(row.ingredientAId)!,
+      ingredientNames.get(row.ingredientBId)!,
+    ] as [string, string],
+    reason: row.reason,
+    severity: row.severity,
+    evidence: row.evidence as EvidenceGrade,
+    contextDependent: row.contextDependent,
+    sources: cited(links),
+  });
+
+  return {
+    ingredients: data.ingredients.map((i) => ({
+      name: i.name,
+      category: i.category,
+      aliases: data.aliases
+        .filter((a) => a.ingredientId === i.id)
+        .map((a) => a.alias),
+    })),
+    diseases: data.diseases.map((d) => ({
+      name: d.name,
+      description: d.description,
+      type: d.type,
+    })),
+    interactions: data.interactions.map((row) =>
+      pair(
+        row,
+        data.interactionSources.filter((link) => link.interactionId === row.id)
+      )
+    ),
+    benefits: data.benefits.map((row) =>
+      pair(
+        row,
+        data.benefitSources.filter((link) => link.benefitId === row.id)
+      )
+    ),
+    diseaseRelations: data.diseaseRelations.map((row) => ({
+      disease: diseaseNames.get(row.diseaseId)!,
+      ingredient: ingredientNames.get(row.ingredientId)!,
+      type: row.type as "AVOID" | "BENEFICIAL",
+      reason: row.reason,
+      severity: row.severity,
+      evidence: row.evidence as EvidenceGrade,
+      contextDependent: row.contextDependent,
+      sources: cited(
+        data.diseaseRelationSources.filter(
+          (link) => link.diseaseIngredientId === row.id
+        )
+      ),
+    })),
+  };
+};
@@ -0,0 +1,192 @@
+import { prisma } from "./prisma";
+
+// Checks that every Source.url still resolves and stores the latest result
+// in LinkCheck. Redirects are followed by hand so each hop is recorded. The
+// HTTP layer is an `HttpClient`, so a local stand-in server (or a plain
+// function) can replace the network.
+
+// One request, without following redirects
+export type HttpResponse = { status: number; location: string | null };
+export type HttpClient = (
+  url: string,
+  method: "HEAD" | "GET"
+) => Promise<HttpResponse>;
+
+export type LinkCheckResult = {
+  url: string;
+  status: number | null;
+  redirects: string[];
+  finalUrl: string | null;
+  error: string | null;
+  broken: boolean;
+};
+
+export const MAX_REDIRECTS = 5;
+
+// Default client: global fetch with manual redirects and a timeout
+export const fetchClient =
+  (timeoutMs = 10_000): HttpClient =>
+  async (url, method) => {
+    const response = await fetch(url, {
+      method,
+      redirect: "manual",
+      signal: AbortSignal.timeout(timeoutMs),
+      headers: { "User-Agent": "StormHack link checker" },
+    });
+    return { status: response.status, location: response.headers.get("location") };
+  };
+
+const isRedirect = (status: number) => status >= 300 && status < 400;
+
+// fetch reports every network problem as "fetch failed"; the cause says which
+const describeError = (error: unknown): string => {
+  if (!(error instanceof Error)) return String(error);
+  return error.cause instanceof Error
+    ? `${error.message}: ${error.cause.message}`
+    : error.message;
+};
+
+export const checkLink = async (
+  url: string,
+  client: HttpClient,
+  { maxRedirects = MAX_REDIRECTS } = {}
+): Promise<LinkCheckResult> => {
+  const redirects: string[] = [];
+  let current = url;
+
+  try {
+    for (;;) {
+      let response = await client(current, "HEAD");
+      // Plenty of servers reject HEAD; ask again with GET before judging
+      if (response.status === 405 || response.status === 501) {
+        response = await client(current, "GET");
+      }
+
+      if (!isRedirect(response.status) || !response.location) {
+        return {
+          url,
+          status: response.status,
+          redirects,
+          finalUrl: current,
+          error: null,
+          broken: response.status >= 400,
+        };
+      }
+
+      const next = new URL(response.location, current).toString();
+      if (next === url || redirects.includes(next)) {
+        throw new Error(`redirect loop at ${next}`);
+      }
+      if (redirects.length >= maxRedirects) {
+        throw new Error(`more than ${maxRedirects} redirects`);
+      }
+      redirects.push(next);
+      current = next;
+    }
+  } catch (error) {
+    return {
+      url,
+      status: null,
+      redirects,
+      finalUrl: null,
+      error: describeError(error),
+      broken: true,
+    };
+  }
+};
+
+// Check every source with a url (or only those not checked since `staleBefore`)
+// and store the results. Runs `concurrency` requests at a time.
+export const checkSourceLinks = async ({
+  client = fetchClient(),
+  concurrency = 4,
+  staleBefore,
+  onResult,
+}: {
+  client?: HttpClient;
+  concurrency?: number;
+  staleBefore?: Date;
+  onResult?: (label: string, result: LinkCheckResult) => void;
+} = {}) => {
+  const sources = await prisma.source.findMany({
+    where: {
+      url: { not: null },
+      ...(staleBefore && {
+        OR: [
+          { linkCheck: { is: null } },
+          { linkCheck: { checkedAt: { lt: staleBefore } } },
+        ],
+      }),
+    },
+    orderBy: { label: "asc" },
+  });
+
+  const results: LinkCheckResult[] = [];
+  const queue = [...sources];
+  const worker = async () => {
+    for (let source = queue.shift(); source; source = queue.shift()) {
+      const result = await checkLink(source.url!, client);
+      const data = {
+        status: result.status,
+        redirects: result.redirects,
+        finalUrl: result.finalUrl,
+        error: result.error,
+        broken: result.broken,
+        checkedAt: new Date(),
+      };
+      await prisma.linkCheck.upsert({
+        where: { sourceId: source.id },
+        create: { sourceId: source.id, ...data },
+        update: data,
+      });
+      results.push(result);
+      onResult?.(source.label, result);
+    }
+  };
+  await Promise.all(Array.from({ length: concurrency }, worker));
+
+  return results;
+};
+
+// Admin view: every source with a url and its latest check
+export const linkReport = async ({ brokenOnly = false } = {}) => {
+  const sources = await prisma.source.findMany({
+    where: {
+      url: { not: null },
+      ...(brokenOnly && { linkCheck: { broken: true } }),
+    },
+    include: {
+      linkCheck: true,
+      _count: {
+        select: { interactions: true, benefits: true, diseaseRelations: true },
+      },
+    },
+    orderBy: { label: "asc" },
+  });
+
+  const entries = sources.map((source) => ({
+    id: source.id,
+    label: source.label,
+    url: source.url,
+    citedBy:
+      source._count.interactions +
+      source._count.benefits +
+      source._count.diseaseRelations,
+    status: source.linkCheck?.status ?? null,
+    redirects: source.linkCheck?.redirects ?? [],
+    finalUrl: source.linkCheck?.finalUrl ?? null,
+    error: source.linkCheck?.error ?? null,
+    broken: source.linkCheck?.broken ?? false,
+    checkedAt: source.linkCheck?.checkedAt ?? null,
+  }));
+
+  return {
+    summary: {
+      total: entries.length,
+      unchecked: entries.filter((e) => !e.checkedAt).length,
+      broken: entries.filter((e) => e.broken).length,
+      redirected: entries.filter((e) => !e.broken && e.redirects.length > 0).length,
+    },
+    sources: entries,
+  };
+};
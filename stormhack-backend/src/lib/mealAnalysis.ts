@@ -0,0 +1,82 @@
+import { prisma } from "./prisma";
+import { formatSource, includeSources, SourceInfo, SourceLink } from "./sources";
+import { PUBLISHED } from "./review";
+
+export type MealVerdict = "avoid" | "caution" | "good" | "neutral";
+
+export type PairRelation = {
+  foods: [string, string];
+  reason: string;
+  severity: number;
+  evidence: string;
+  sources: SourceInfo[];
+};
+
+// One reason an ingredient is good or bad in a meal, and what caused it
+export type MealReason = {
+  type: "avoid" | "beneficial";
+  cause: { kind: "disease" | "ingredient"; name: string };
+  reason: string;
+  severity: number;
+  evidence: string;
+  sources: SourceInfo[];
+};
+
+// Conflicts at or above this severity make the whole meal an "avoid"
+export const AVOID_SEVERITY = 4;
+
+// Every IngredientInteraction / IngredientBenefit whose two sides are both
+// in the given ingredient ids, strongest first
+export const findPairRelations = async (ingredientIds: string[]) => {
+  const where = {
+    ingredientAId: { in: ingredientIds },
+    ingredientBId: { in: ingredientIds },
+    ...PUBLISHED,
+  };
+  const include = { ingredientA: true, ingredientB: true, sources: includeSources };
+
+  const [interactions, benefits] = await Promise.all([
+    prisma.ingredientInteraction.findMany({
+      where,
+      include,
+      orderBy: { severity: "desc" },
+    }),
+    prisma.ingredientBenefit.findMany({
+      where,
+      include,
+      orderBy: { severity: "desc" },
+    }),
+  ]);
+
+  const format = (relation: {
+    ingredientA: { name: string };
+    ingredientB: { name: string };
+    reason: string;
+    severity: number;
+    evidence: string;
+    sources: SourceLink[];
+  }): PairRelation => ({
+    foods: [relation.ingredientA.name, relation.ingredientB.name],
+    reason: relation.reason,
+    severity: relation.severity,
+    evidence: relation.evidence,
+    sources: relation.sources.map(formatSource),
+  });
+
+  return {
+    conflicts: interactions.map(format),
+    benefits: benefits.map(format),
+  };
+};
+
+// Overall verdict: any strong conflict -> avoid, any conflict -> caution,
+// otherwise good if something pairs well
+export const mealVerdict = (
+  conflicts: { severity: number }[],
+  benefits: { severity: number }[]
+): MealVerdict => {
+  if (conflicts.some((c) => c.severity >= AVOID_SEVERITY)) return "avoid";
+  if (conflicts.length > 0) return "caution";
+  if (benefits.length > 0) return "good";
+  return "neutral";
+};
@@ -0,0 +1,260 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { auditRow } from "./audit";
+import { assertNoDiseaseContradiction, assertNoPairContradiction } from "./contradictions";
+
+// Review workflow for relations and sources. Only approved rows are served by
+// the public endpoints; curators move rows through the states with
+// PATCH /api/admin/review/:kind/:id.
+
+export const REVIEW_STATUSES = [
+  "draft", // being written, not ready for review (default for new rows)
+  "in-review", // waiting for a curator
+  "approved", // served to users
+  "retired", // withdrawn, kept for the record
+] as const;
+
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+export const DEFAULT_REVIEW_STATUS: ReviewStatus = "draft";
+
+export const isReviewStatus = (value: unknown): value is ReviewStatus =>
+  REVIEW_STATUSES.includes(value as ReviewStatus);
+
+// Allowed moves from each state. Approving always goes through review, and a
+// retired row comes back as a draft.
+export const REVIEW_TRANSITIONS: Record<ReviewStatus, readonly ReviewStatus[]> = {
+  draft: ["in-review", "retired"],
+  "in-review": ["draft", "approved", "retired"],
+  approved: ["in-review", "retired"],
+  retired: ["draft"],
+};
+
+export const canTransition = (from: ReviewStatus, to: ReviewStatus) =>
+  REVIEW_TRANSITIONS[from].includes(to);
+
+// Prisma filter for rows the public endpoints may serve
+export const PUBLISHED = { status: "approved" } as const;
+
+// Fields written when a row moves to `status`: sending it to review records
+// who submitted it, approving or retiring records the reviewer
+export const reviewFields = (status: ReviewStatus, curator: string, at = new Date()) => ({
+  status,
+  ...(status === "in-review" && { submittedBy: curator, submittedAt: at }),
+  ...((status === "approved" || status === "retired") && {
+    reviewedBy: curator,
+    reviewedAt: at,
+  }),
+});
+
+// Review fields for a row whose content `curator` changed, or null when its
+// status stays. Changed content of an approved row (or one waiting for review)
+// isn't served until it's approved again, so the row goes back to "in-review"
+// with its reviewer cleared. Drafts stay drafts, and a retired row comes back
+// through draft first.
+export const reviewAfterEdit = (status: string, changed: boolean, curator: string) =>
+  changed && (status === "approved" || status === "in-review")
+    ? { ...reviewFields("in-review", curator), reviewedBy: null, reviewedAt: null }
+    : null;
+
+// The kinds of rows that carry a review status, as used in admin urls
+export const REVIEW_KINDS = [
+  "interaction",
+  "benefit",
+  "disease-relation",
+  "source",
+] as const;
+
+export type ReviewKind = (typeof REVIEW_KINDS)[number];
+
+export const isReviewKind = (value: unknown): value is ReviewKind =>
+  REVIEW_KINDS.includes(value as ReviewKind);
+
+export class ReviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewError";
+  }
+}
+
+const reviewSelect = {
+  id: true,
+  status: true,
+  submittedBy: true,
+  submittedAt: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  createdAt: true,
+} as const;
+
+const pairSelect = {
+  ...reviewSelect,
+  reason: true,
+  ingredientA: { select: { name: true } },
+  ingredientB: { select: { name: true } },
+} as const;
+
+type ReviewRow = {
+  id: string;
+  status: string;
+  submittedBy: string | null;
+  submittedAt: Date | null;
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  createdAt: Date;
+};
+
+const entry = (kind: ReviewKind, label: string, reason: string | null, row: ReviewRow) => ({
+  kind,
+  label,
+  reason,
+  ...row,
+});
+
+// Rows of the given kinds (all by default) in one status, oldest first, so
+// curators work through the queue in order
+export const reviewQueue = async ({
+  status = "in-review",
+  kinds = REVIEW_KINDS,
+}: { status?: ReviewStatus; kinds?: readonly ReviewKind[] } = {}) => {
+  const where = { status };
+  const orderBy = { createdAt: "asc" } as const;
+  const wants = (kind: ReviewKind) => kinds.includes(kind);
+
+  const [interactions, benefits, diseaseRelations, sources] = await Promise.all([
+    wants("interaction")
+      ? prisma.ingredientInteraction.findMany({ where, select: pairSelect, orderBy })
+      : [],
+    wants("benefit")
+      ? prisma.ingredientBenefit.findMany({ where, select: pairSelect, orderBy })
+      : [],
+    wants("disease-relation")
+      ? prisma.diseaseIngredient.findMany({
+          where,
+          select: {
+            ...reviewSelect,
+            type: true,
+            reason: true,
+            disease: { select: { name: true } },
+            ingredient: { select: { name: true } },
+          },
+          orderBy,
+        })
+      : [],
+    wants("source")
+      ? prisma.source.findMany({
+          where,
+          select: { ...reviewSelect, label: true, url: true },
+          orderBy,
+        })
+      : [],
+  ]);
+
+  const pairEntry =
+    (kind: ReviewKind) =>
+    ({ ingredientA, ingredientB, reason, ...row }: (typeof interactions)[number]) =>
+      entry(kind, `${ingredientA.name} + ${ingredientB.name}`, reason, row);
+
+  const items = [
+    ...interactions.map(pairEntry("interaction")),
+    ...benefits.map(pairEntry("benefit")),
+    ...diseaseRelations.map(({ disease, ingredient, type, reason, ...row }) =>
+      entry("disease-relation", `${disease.name} / ${ingredient.name} (${type})`, reason, row)
+    ),
+    ...sources.map(({ label, url, ...row }) =>
+      entry("source", url ? `${label} (${url})` : label, null, row)
+    ),
+  ].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  return { status, count: items.length, items };
+};
+
+type Tx = Prisma.TransactionClient;
+
+const findStatus = async (tx: Tx, kind: ReviewKind, id: string) => {
+  const select = { status: true } as const;
+  switch (kind) {
+    case "interaction":
+      return tx.ingredientInteraction.findUnique({ where: { id }, select });
+    case "benefit":
+      return tx.ingredientBenefit.findUnique({ where: { id }, select });
+    case "disease-relation":
+      return tx.diseaseIngredient.findUnique({ where: { id }, select });
+    case "source":
+      return tx.source.findUnique({ where: { id }, select });
+  }
+};
+
+// Retired relations don't count as contradictions, so one coming back must not
+// contradict what's active now (throws ContradictionError)
+const checkReactivation = async (tx: Tx, kind: ReviewKind, id: string) => {
+  switch (kind) {
+    case "interaction":
+    case "benefit": {
+      const where = { id };
+      const row =
+        kind === "interaction"
+          ? await tx.ingredientInteraction.findUniqueOrThrow({ where })
+          : await tx.ingredientBenefit.findUniqueOrThrow({ where });
+      return assertNoPairContradiction(tx, { kind, ...row });
+    }
+    case "disease-relation":
+      return assertNoDiseaseContradiction(
+        tx,
+        await tx.diseaseIngredient.findUniqueOrThrow({ where: { id } })
+      );
+    case "source":
+      return;
+  }
+};
+
+const writeStatus = (
+  tx: Tx,
+  kind: ReviewKind,
+  id: string,
+  data: ReturnType<typeof reviewFields>
+) => {
+  const where = { id };
+  const select = reviewSelect;
+  switch (kind) {
+    case "interaction":
+      return tx.ingredientInteraction.update({ where, data, select });
+    case "benefit":
+      return tx.ingredientBenefit.update({ where, data, select });
+    case "disease-relation":
+      return tx.diseaseIngredient.update({ where, data, select });
+    case "source":
+      return tx.source.update({ where, data, select });
+  }
+};
+
+// Move one row to `status`, recording the change in the audit log. Returns
+// null when there's no such row and throws ReviewError when the move isn't
+// allowed from its current state, or ContradictionError when a retired
+// relation would come back contradicting an active one.
+export const setReviewStatus = async (
+  kind: ReviewKind,
+  id: string,
+  status: ReviewStatus,
+  curator: string
+) =>
+  prisma.$transaction(async (tx) => {
+    const current = await findStatus(tx, kind, id);
+    if (!current) return null;
+
+    const from = current.status as ReviewStatus;
+    if (!canTransition(from, status)) {
+      throw new ReviewError(
+        `A ${kind} can't move from "${from}" to "${status}" (allowed: ${
+          REVIEW_TRANSITIONS[from].join(", ") || "none"
+        })`
+      );
+    }
+
+    if (from === "retired") await checkReactivation(tx, kind, id);
+
+    const updated = await auditRow(tx, curator, kind, id, () =>
+      writeStatus(tx, kind, id, reviewFields(status, curator))
+    );
+    return { kind, ...updated };
+  });
@@ -0,0 +1,41 @@
+import { Source } from "@prisma/client";
+import type { ReviewStatus } from "./review";
+
+export const SOURCE_TYPES = ["government", "peer-reviewed", "university"] as const;
+export type SourceType = (typeof SOURCE_TYPES)[number];
+
+// Shape of every `sources` entry in API responses
+export type SourceInfo = {
+  label: string;
+  url: string | null;
+  publisher: string | null;
+  year: number | null;
+  accessedAt: string | null; // YYYY-MM-DD
+  snippet: string | null;
+  sourceType: string | null;
+};
+
+// Include for a relation's `sources` links together with the shared Source
+// rows, limited to approved sources for the public endpoints. This is
+// PUBLISHED from review.ts written out: review.ts loads this module (through
+// contradictions.ts), so importing the value here would be circular.
+export const includeSources = {
+  where: { source: { status: "approved" satisfies ReviewStatus } },
+  include: { source: true },
+} as const;
+
+// Same, with every source whatever its review status (admin views)
+export const includeAllSources = { include: { source: true } } as const;
+
+// One link between a claim and a shared Source
+export type SourceLink = { snippet: string | null; source: Source };
+
+export const formatSource = ({ snippet, source }: SourceLink): SourceInfo => ({
+  label: source.label,
+  url: source.url || null,
+  publisher: source.publisher,
+  year: source.year,
+  accessedAt: source.accessedAt ? source.accessedAt.toISOString().slice(0, 10) : null,
+  snippet,
+  sourceType: source.sourceType,
+});
@@ -0,0 +1,92 @@
+import { prisma } from "./prisma";
+import { rankFuzzy } from "./fuzzySearch";
+import { normalizeIngredientName } from "./ingredientResolver";
+
+export type Suggestion = {
+  name: string;
+  type: "ingredient" | "disease";
+  matchedAlias: string | null;
+  score: number;
+};
+
+const MAX_SUGGESTIONS = 5;
+
+const loadCandidates = async () => {
+  const [ingredients, diseases] = await Promise.all([
+    prisma.ingredient.findMany({
+      include: {
+        aliases: true,
+        _count: { select: { diseaseRelations: true } },
+      },
+    }),
+    prisma.disease.findMany({
+      include: { _count: { select: { ingredients: true } } },
+    }),
+  ]);
+
+  return [
+    ...ingredients.map((ingredient) => ({
+      item: "ingredient" as const,
+      name: ingredient.name,
+      aliases: ingredient.aliases.map((a) => a.alias),
+      popularity: ingredient._count.diseaseRelations,
+    })),
+    ...diseases.map((disease) => ({
+      item: "disease" as const,
+      name: disease.name,
+      popularity: disease._count.ingredients,
+    })),
+  ];
+};
+
+type Candidates = Awaited<ReturnType<typeof loadCandidates>>;
+
+const rankSuggestions = (query: string, candidates: Candidates, limit: number) =>
+  rankFuzzy(normalizeIngredientName(query), candidates, limit).map(
+    (ranked): Suggestion => ({
+      name: ranked.name,
+      type: ranked.item,
+      matchedAlias: ranked.matchedAlias,
+      score: ranked.match.score,
+    })
+  );
+
+// "Did you mean" candidates for names that matched nothing, drawn from
+// ingredient names, ingredient aliases and disease names
+export const suggestNames = async (
+  queries: string[],
+  limit = MAX_SUGGESTIONS
+): Promise<Suggestion[]> => {
+  const candidates = await loadCandidates();
+
+  // Keep the best suggestion per name across all queries
+  const best = new Map<string, Suggestion>();
+  queries.forEach((query) => {
+    rankSuggestions(query, candidates, limit).forEach((suggestion) => {
+      const key = `${suggestion.type}:${suggestion.name}`;
+      const existing = best.get(key);
+      if (!existing || existing.score < suggestion.score) {
+        best.set(key, suggestion);
+      }
+    });
+  });
+
+  return Array.from(best.values())
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, limit);
+};
+
+// Suggestions of one type for each query separately, for listing under every
+// unknown name of a partial result
+export const suggestNamesEach = async (
+  queries: string[],
+  type: Suggestion["type"],
+  limit = MAX_SUGGESTIONS
+) => {
+  if (queries.length === 0) return [];
+  const candidates = (await loadCandidates()).filter((c) => c.item === type);
+  return queries.map((name) => ({
+    name,
+    suggestions: rankSuggestions(name, candidates, limit),
+  }));
+};
@@ -0,0 +1,105 @@
+import { NextFunction, Request, Response } from "express";
+import rateLimit from "express-rate-limit";
+import { ApiKey } from "@prisma/client";
+import { findActiveKey, recordUsage, reserveQuota } from "../lib/apiKeys";
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+// Requests without `X-API-Key` pass straight through. With one, the key must
+// be live.
+const identifyApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  const header = req.headers["x-api-key"];
+  if (header === undefined) return next();
+
+  try {
+    const key = typeof header === "string" ? await findActiveKey(header.trim()) : null;
+    if (!key) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "Unknown or revoked API key",
+      });
+    }
+
+    req.apiKey = key;
+    next();
+  } catch (error) {
+    console.error("Error in identifyApiKey:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Rate limiter: each key's own requests per minute. Kept in memory like the
+// chat limiter; a restart only resets the current minute.
+const apiKeyLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  limit: (req) => req.apiKey?.rateLimitPerMinute ?? 0,
+  keyGenerator: (req) => req.apiKey?.id ?? "",
+  skip: (req) => !req.apiKey,
+  message: {
+    error: "Too many requests",
+    message: "Rate limit for this API key exceeded, please slow down",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Takes the request from the key's daily quota before it runs. The counter is
+// persisted, so the quota holds across restarts and instances.
+const reserveApiKeyQuota = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.apiKey;
+  if (!key) return next();
+
+  try {
+    const used = await reserveQuota(key);
+    res.setHeader("X-Quota-Limit", key.dailyQuota);
+    res.setHeader("X-Quota-Remaining", used === null ? 0 : key.dailyQuota - used);
+    if (used === null) {
+      return res.status(429).json({
+        error: "Too many requests",
+        message: `Daily quota of ${key.dailyQuota} requests reached; it resets at 00:00 UTC`,
+      });
+    }
+    next();
+  } catch (error) {
+    console.error("Error in reserveApiKeyQuota:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Route pattern the request matched, e.g. "GET /api/diseases/:name", so usage
+// isn't split by every ingredient or disease name
+const endpointOf = (req: Request) =>
+  req.route ? `${req.method} ${req.baseUrl}${req.route.path}` : `${req.method} (no route)`;
+
+// Counts the request once it has been answered, when the matched route is known
+const countApiKeyUsage = (req: Request, res: Response, next: NextFunction) => {
+  const key = req.apiKey;
+  if (key) {
+    res.on("finish", () => {
+      recordUsage(key.id, endpointOf(req)).catch((error) =>
+        console.error("Error recording API key usage:", error)
+      );
+    });
+  }
+  next();
+};
+
+// Requests turned away by the rate limit or quota aren't counted
+export const meterApiKey = [
+  identifyApiKey,
+  apiKeyLimiter,
+  reserveApiKeyQuota,
+  countApiKeyUsage,
+];
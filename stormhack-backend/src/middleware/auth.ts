@@ -0,0 +1,92 @@
+import { NextFunction, Request, Response } from "express";
+import {
+  AccountUser,
+  actorName,
+  AuthError,
+  hasRole,
+  Role,
+  userFromToken,
+} from "../lib/auth";
+
+// Who is calling: the signed-in account, or an anonymous reader. `error` is
+// why a credential that came with the request wasn't accepted; it's only
+// reported on routes behind requireRole.
+export type AuthContext = { role: Role; user: AccountUser | null; error?: AuthError };
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+const ANONYMOUS: AuthContext = { role: "anonymous", user: null };
+
+// Runs on every request. With a valid `Authorization: Bearer <token>` header
+// the caller is that account; otherwise an anonymous reader. A header that
+// isn't ours (another scheme, a malformed or expired token) doesn't fail public
+// routes: requireRole rejects it where an account is needed.
+export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+  const header = req.headers.authorization;
+  if (!header) {
+    req.auth = ANONYMOUS;
+    return next();
+  }
+
+  try {
+    const [scheme, token] = header.split(" ");
+    if (scheme !== "Bearer" || !token) {
+      throw new AuthError('Authorization header must be "Bearer <token>"');
+    }
+    const user = await userFromToken(token);
+    req.auth = { role: user.role, user };
+    next();
+  } catch (error) {
+    if (error instanceof AuthError) {
+      req.auth = { ...ANONYMOUS, error };
+      return next();
+    }
+    console.error("Error in authenticate:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Route guard: `router.use(requireRole("curator"))` or
+// `router.get("/x", requireRole("admin"), handler)`. Higher roles pass too.
+export const requireRole =
+  (role: Role) => (req: Request, res: Response, next: NextFunction) => {
+    const { role: current, error } = req.auth ?? ANONYMOUS;
+    if (hasRole(current, role)) return next();
+
+    if (error) {
+      return res.status(error.status).json({
+        error: error.status === 503 ? "Service unavailable" : "Unauthorized",
+        message: error.message,
+      });
+    }
+    if (current === "anonymous") {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "Sign in to use this endpoint",
+      });
+    }
+    res.status(403).json({
+      error: "Forbidden",
+      message: `This endpoint requires the ${role} role`,
+    });
+  };
+
+// The signed-in account behind a guarded route. Only call it after
+// requireRole("user") or higher has let the request through.
+export const currentUser = (req: Request) => {
+  const user = req.auth?.user;
+  if (!user) throw new Error("currentUser called on a route without requireRole");
+  return user;
+};
+
+// Name recorded as the author of a change made through this request
+export const currentActor = (req: Request) => actorName(currentUser(req));
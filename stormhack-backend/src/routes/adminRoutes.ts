@@ -0,0 +1,44 @@
+import express from "express";
+import {
+  getContradictions,
+  getExportBundle,
+  getHistory,
+  getLinkReport,
+  getReviewQueue,
+  getUsers,
+  revertToVersion,
+  updateReviewStatus,
+  updateUserRole,
+} from "../controllers/adminController";
+import {
+  getApiKeys,
+  getApiKeyUsage,
+  patchApiKey,
+  postApiKey,
+  removeApiKey,
+} from "../controllers/apiKeyController";
+import { requireRole } from "../middleware/auth";
+import curationRoutes from "./curationRoutes";
+
+const router = express.Router();
+
+// Curators and admins only; exports, accounts and API keys are admin-only
+router.use(requireRole("curator"));
+
+router.get("/integrity/contradictions", getContradictions);
+router.get("/integrity/links", getLinkReport);
+router.get("/export", requireRole("admin"), getExportBundle);
+router.get("/review", getReviewQueue);
+router.patch("/review/:kind/:id", updateReviewStatus);
+router.get("/history/:entity/:id", getHistory);
+router.post("/history/:entity/:id/revert", revertToVersion);
+router.get("/users", requireRole("admin"), getUsers);
+router.patch("/users/:id/role", requireRole("admin"), updateUserRole);
+router.get("/api-keys", requireRole("admin"), getApiKeys("all"));
+router.post("/api-keys", requireRole("admin"), postApiKey);
+router.patch("/api-keys/:id", requireRole("admin"), patchApiKey);
+router.delete("/api-keys/:id", requireRole("admin"), removeApiKey("all"));
+router.get("/api-keys/:id/usage", requireRole("admin"), getApiKeyUsage("all"));
+router.use(curationRoutes);
+
+export default router;
@@ -0,0 +1,14 @@
+import express from "express";
+import { getApiKeys, getApiKeyUsage, removeApiKey } from "../controllers/apiKeyController";
+import { requireRole } from "../middleware/auth";
+
+// Key owners' view of their own API keys; admins issue keys under /api/admin
+const router = express.Router();
+
+router.use(requireRole("user"));
+
+router.get("/", getApiKeys("own"));
+router.get("/:id/usage", getApiKeyUsage("own"));
+router.delete("/:id", removeApiKey("own"));
+
+export default router;
@@ -0,0 +1,25 @@
+import express from "express";
+import rateLimit from "express-rate-limit";
+import { getMe, login, register } from "../controllers/authController";
+import { requireRole } from "../middleware/auth";
+
+const router = express.Router();
+
+// Rate limiter: at most 20 sign-in or sign-up attempts per 15 minutes,
+// to slow down password guessing
+const credentialsLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  message: {
+    error: "Too many requests",
+    message: "Please try again later",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+router.post("/register", credentialsLimiter, register);
+router.post("/login", credentialsLimiter, login);
+router.get("/me", requireRole("user"), getMe);
+
+export default router;
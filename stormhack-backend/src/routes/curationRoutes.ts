@@ -0,0 +1,50 @@
+import express from "express";
+import {
+  patchBenefit,
+  patchDisease,
+  patchDiseaseRelation,
+  patchIngredient,
+  patchInteraction,
+  patchSource,
+  postBenefit,
+  postDisease,
+  postDiseaseRelation,
+  postIngredient,
+  postInteraction,
+  postSource,
+  removeBenefit,
+  removeDisease,
+  removeDiseaseRelation,
+  removeIngredient,
+  removeInteraction,
+  removeSource,
+} from "../controllers/curationController";
+
+// Knowledge base editing; mounted by adminRoutes behind the curator guard
+const router = express.Router();
+
+router.post("/ingredients", postIngredient);
+router.patch("/ingredients/:id", patchIngredient);
+router.delete("/ingredients/:id", removeIngredient);
+
+router.post("/diseases", postDisease);
+router.patch("/diseases/:id", patchDisease);
+router.delete("/diseases/:id", removeDisease);
+
+router.post("/interactions", postInteraction);
+router.patch("/interactions/:id", patchInteraction);
+router.delete("/interactions/:id", removeInteraction);
+
+router.post("/benefits", postBenefit);
+router.patch("/benefits/:id", patchBenefit);
+router.delete("/benefits/:id", removeBenefit);
+
+router.post("/disease-relations", postDiseaseRelation);
+router.patch("/disease-relations/:id", patchDiseaseRelation);
+router.delete("/disease-relations/:id", removeDiseaseRelation);
+
+router.post("/sources", postSource);
+router.patch("/sources/:id", patchSource);
+router.delete("/sources/:id", removeSource);
+
+export default router;
@@ -2,11 +2,13 @@ import express from "express";
 import {
   getDiseaseGuide,
   getAllDiseases,
+  getDiseaseDetail,
 } from "../controllers/diseaseController";
 
 const router = express.Router();
 
 router.post("/guide", getDiseaseGuide);
 router.get("/", getAllDiseases);
+router.get("/:name", getDiseaseDetail);
 
 export default router;
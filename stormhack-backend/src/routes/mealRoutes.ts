@@ -0,0 +1,12 @@
+import express from "express";
+import {
+  analyzeMeal,
+  checkMealForDiseases,
+} from "../controllers/mealController";
+
+const router = express.Router();
+
+router.post("/analyze", analyzeMeal);
+router.post("/check", checkMealForDiseases);
+
+export default router;
@@ -0,0 +1,84 @@
+import { resetStore, store } from "./fakePrisma";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { recordUsage, reserveQuota, usageReport } from "../src/lib/apiKeys";
+
+const key = { id: "k1", dailyQuota: 2 };
+
+beforeEach(() => {
+  resetStore();
+  store.apiKeys.push({ ...key, keyHash: "hash", ownerId: "u1", revokedAt: null });
+  mock.timers.enable({ apis: ["Date"], now: new Date("2026-03-01T23:59:00.000Z") });
+});
+afterEach(() => {
+  mock.timers.reset();
+});
+
+describe("reserveQuota", () => {
+  test("reserves up to the quota, then refuses", async () => {
+    assert.equal(await reserveQuota(key), 1);
+    assert.equal(await reserveQuota(key), 2);
+    assert.equal(await reserveQuota(key), null);
+    assert.equal(await reserveQuota(key), null);
+    // Refused requests give their slot back
+    assert.equal(store.apiKeyDailyCounts[0]?.count, 2);
+  });
+
+  test("starts again on the next UTC day", async () => {
+    await reserveQuota(key);
+    await reserveQuota(key);
+    assert.equal(await reserveQuota(key), null);
+
+    mock.timers.setTime(new Date("2026-03-02T00:00:00.000Z").getTime());
+    assert.equal(await reserveQuota(key), 1);
+    assert.deepEqual(
+      store.apiKeyDailyCounts.map(({ day, count }) => [day, count]),
+      [
+        ["2026-03-01", 2],
+        ["2026-03-02", 1],
+      ]
+    );
+  });
+});
+
+describe("usageReport", () => {
+  test("counts requests per endpoint and per day", async () => {
+    await recordUsage("k1", "GET /api/diseases/:name");
+    mock.timers.setTime(new Date("2026-03-02T08:00:00.000Z").getTime());
+    await reserveQuota(key);
+    await recordUsage("k1", "GET /api/diseases/:name");
+    await recordUsage("k1", "GET /api/diseases/:name");
+    await recordUsage("k1", "POST /api/meals/analyze");
+
+    const report = await usageReport("k1", null, 7);
+    assert.equal(report?.total, 4);
+    assert.deepEqual(report?.endpoints, [
+      { endpoint: "GET /api/diseases/:name", count: 3 },
+      { endpoint: "POST /api/meals/analyze", count: 1 },
+    ]);
+    assert.deepEqual(report?.days, [
+      { day: "2026-03-01", total: 1, endpoints: { "GET /api/diseases/:name": 1 } },
+      {
+        day: "2026-03-02",
+        total: 3,
+        endpoints: { "GET /api/diseases/:name": 2, "POST /api/meals/analyze": 1 },
+      },
+    ]);
+    assert.deepEqual(report?.today, { day: "2026-03-02", used: 1, quota: 2, remaining: 1 });
+    assert.equal(store.apiKeys[0]?.lastUsedAt instanceof Date, true);
+  });
+
+  test("leaves out days before the report window", async () => {
+    await recordUsage("k1", "GET /api/ingredients");
+    mock.timers.setTime(new Date("2026-03-05T12:00:00.000Z").getTime());
+
+    const report = await usageReport("k1", null, 2);
+    assert.equal(report?.from, "2026-03-04");
+    assert.equal(report?.total, 0);
+    assert.deepEqual(report?.endpoints, []);
+  });
+
+  test("returns null for another owner's key", async () => {
+    assert.equal(await usageReport("k1", "u2"), null);
+  });
+});
@@ -0,0 +1,123 @@
+import { resetStore, store } from "./fakePrisma";
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { revertRow } from "../src/lib/audit";
+import { ContradictionError } from "../src/lib/contradictions";
+
+const interaction = (reason: string, review: Record<string, unknown>) => ({
+  id: "i1",
+  ingredientAId: "a",
+  ingredientBId: "b",
+  reason,
+  severity: 3,
+  contextDependent: false,
+  submittedBy: null,
+  submittedAt: null,
+  reviewedBy: null,
+  reviewedAt: null,
+  ...review,
+});
+
+// An audit entry whose `after` is the row as it was, approved by "bob"
+const recordVersion = (reason: string) => {
+  const version = {
+    ...interaction(reason, {
+      status: "approved",
+      reviewedBy: "bob",
+      reviewedAt: "2026-01-01T00:00:00.000Z",
+    }),
+    sources: [{ sourceId: "s1", snippet: null }],
+  };
+  store.auditEntries.push({
+    id: "e1",
+    entity: "interaction",
+    entityId: "i1",
+    action: "update",
+    before: null,
+    after: version,
+  });
+};
+
+// An approved benefit for the same pair
+const benefit = (fields: Record<string, unknown> = {}) => ({
+  id: "b1",
+  ingredientAId: "a",
+  ingredientBId: "b",
+  status: "approved",
+  contextDependent: false,
+  ...fields,
+});
+
+describe("revertRow", () => {
+  beforeEach(() => {
+    resetStore();
+    recordVersion("Old reason");
+  });
+
+  test("an approved row reverted to other content goes back to review", async () => {
+    store.interactions.push(
+      interaction("New reason", { status: "approved", reviewedBy: "carol", reviewedAt: new Date() })
+    );
+
+    const result = await revertRow("interaction", "i1", "e1", "alice");
+    assert.equal(result?.changed, true);
+    assert.equal(result?.row?.reason, "Old reason");
+    assert.equal(result?.row?.status, "in-review");
+    assert.equal(result?.row?.submittedBy, "alice");
+    assert.equal(result?.row?.reviewedBy, null);
+    assert.deepEqual(store.citations, [{ interactionId: "i1", sourceId: "s1", snippet: null }]);
+  });
+
+  test("a retired row stays retired", async () => {
+    store.interactions.push(
+      interaction("New reason", { status: "retired", reviewedBy: "carol", reviewedAt: new Date() })
+    );
+
+    const result = await revertRow("interaction", "i1", "e1", "alice");
+    assert.equal(result?.row?.reason, "Old reason");
+    assert.equal(result?.row?.status, "retired");
+    assert.equal(result?.row?.reviewedBy, "carol");
+  });
+
+  test("a deleted row is re-created waiting for review", async () => {
+    const result = await revertRow("interaction", "i1", "e1", "alice");
+    assert.equal(result?.row?.status, "in-review");
+    assert.equal(result?.row?.submittedBy, "alice");
+    // Left for the column default (null); the old approval isn't copied over
+    assert.equal(result?.row?.reviewedBy ?? null, null);
+  });
+
+  test("a row already matching the version keeps its status", async () => {
+    store.interactions.push(interaction("Old reason", { status: "draft" }));
+    store.citations.push({ interactionId: "i1", sourceId: "s1", snippet: null });
+
+    const result = await revertRow("interaction", "i1", "e1", "alice");
+    assert.equal(result?.changed, false);
+    assert.equal(result?.row?.status, "draft");
+  });
+
+  test("won't re-create a row that contradicts an active relation", async () => {
+    store.benefits.push(benefit());
+
+    await assert.rejects(revertRow("interaction", "i1", "e1", "alice"), ContradictionError);
+    assert.deepEqual(store.interactions, []);
+  });
+
+  test("ignores a retired opposite relation", async () => {
+    store.benefits.push(benefit({ status: "retired" }));
+
+    const result = await revertRow("interaction", "i1", "e1", "alice");
+    assert.equal(result?.row?.status, "in-review");
+  });
+
+  test("re-creates a row whose opposite relation is context-dependent", async () => {
+    store.benefits.push(benefit({ contextDependent: true }));
+
+    const result = await revertRow("interaction", "i1", "e1", "alice");
+    assert.equal(result?.row?.status, "in-review");
+  });
+
+  test("returns null for an entry of another row", async () => {
+    assert.equal(await revertRow("interaction", "i2", "e1", "alice"), null);
+  });
+});
@@ -0,0 +1,202 @@
+import { resetStore, store } from "./fakePrisma";
+import { beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { Request, Response } from "express";
+import {
+  authenticateUser,
+  AuthError,
+  hashPassword,
+  issueToken,
+  toAccountUser,
+  verifyPassword,
+  verifyToken,
+} from "../src/lib/auth";
+import { AuthContext, authenticate, requireRole } from "../src/middleware/auth";
+
+process.env.AUTH_SECRET = "test secret";
+
+const base64url = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const account = (role: string) => ({
+  id: `${role}-id`,
+  email: `${role}@example.com`,
+  name: role,
+  passwordHash: "",
+  role,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+// Just enough of an Express response to see what a handler sent
+const response = () => {
+  const sent = { status: 200, body: undefined as unknown };
+  const res = {
+    status: (code: number) => {
+      sent.status = code;
+      return res;
+    },
+    json: (body: unknown) => {
+      sent.body = body;
+      return res;
+    },
+  };
+  return { res: res as unknown as Response, sent };
+};
+
+describe("verifyToken", () => {
+  test("accepts a token it issued", () => {
+    const { token } = issueToken({ id: "u1" });
+    assert.equal(verifyToken(token).sub, "u1");
+  });
+
+  test("rejects an expired token", () => {
+    const dayAgo = Date.now() - 25 * 3600 * 1000;
+    const now = mock.method(Date, "now", () => dayAgo);
+    const { token } = issueToken({ id: "u1" });
+    now.mock.restore();
+
+    assert.throws(() => verifyToken(token), /Token has expired/);
+  });
+
+  test("rejects a token whose claims were changed", () => {
+    const [header, payload, signature] = issueToken({ id: "u1" }).token.split(".");
+    const claims = JSON.parse(Buffer.from(payload!, "base64url").toString("utf8"));
+    const forged = base64url({ ...claims, sub: "admin-id" });
+
+    assert.throws(() => verifyToken(`${header}.${forged}.${signature}`), /Invalid token signature/);
+  });
+
+  test("rejects a token signed with another secret", () => {
+    process.env.AUTH_SECRET = "another secret";
+    const { token } = issueToken({ id: "u1" });
+    process.env.AUTH_SECRET = "test secret";
+
+    assert.throws(() => verifyToken(token), /Invalid token signature/);
+  });
+
+  test("rejects another algorithm, including none", () => {
+    const [, payload, signature] = issueToken({ id: "u1" }).token.split(".");
+    for (const alg of ["none", "HS512", "RS256"]) {
+      const header = base64url({ alg, typ: "JWT" });
+      assert.throws(() => verifyToken(`${header}.${payload}.${signature}`), /Malformed token/);
+      assert.throws(() => verifyToken(`${header}.${payload}.`), AuthError);
+    }
+  });
+});
+
+describe("authenticate", () => {
+  beforeEach(() => {
+    resetStore();
+    store.users.push(account("curator"));
+  });
+
+  const run = async (authorization?: string) => {
+    const req = { headers: { authorization } } as unknown as Request;
+    const { res, sent } = response();
+    let called = false;
+    await authenticate(req, res, () => {
+      called = true;
+    });
+    return { auth: req.auth as AuthContext, called, sent };
+  };
+
+  test("signs in the account a valid token belongs to", async () => {
+    const { auth, called } = await run(`Bearer ${issueToken({ id: "curator-id" }).token}`);
+    assert.equal(called, true);
+    assert.equal(auth.role, "curator");
+    assert.equal(auth.user?.email, "curator@example.com");
+  });
+
+  test("treats a malformed header as anonymous on public routes", async () => {
+    for (const header of ["Basic dXNlcjpwYXNz", "Bearer", "Bearer not-a-token"]) {
+      const { auth, called, sent } = await run(header);
+      assert.equal(called, true);
+      assert.equal(auth.role, "anonymous");
+      assert.ok(auth.error instanceof AuthError);
+      assert.equal(sent.status, 200);
+    }
+  });
+
+  test("treats a token for a deleted account as anonymous", async () => {
+    const { auth } = await run(`Bearer ${issueToken({ id: "gone" }).token}`);
+    assert.equal(auth.role, "anonymous");
+    assert.match(auth.error?.message ?? "", /no longer exists/);
+  });
+});
+
+describe("requireRole", () => {
+  const run = (required: Parameters<typeof requireRole>[0], auth: AuthContext) => {
+    const { res, sent } = response();
+    let called = false;
+    requireRole(required)({ auth } as Request, res, () => {
+      called = true;
+    });
+    return { called, sent };
+  };
+  const as = (role: "user" | "curator" | "admin"): AuthContext => ({
+    role,
+    user: toAccountUser(account(role)),
+  });
+
+  test("lets the role and every higher one through", () => {
+    assert.equal(run("curator", as("curator")).called, true);
+    assert.equal(run("curator", as("admin")).called, true);
+    assert.equal(run("user", as("admin")).called, true);
+    assert.equal(run("anonymous", { role: "anonymous", user: null }).called, true);
+  });
+
+  test("forbids a lower role", () => {
+    const { called, sent } = run("admin", as("curator"));
+    assert.equal(called, false);
+    assert.equal(sent.status, 403);
+    assert.deepEqual(sent.body, {
+      error: "Forbidden",
+      message: "This endpoint requires the admin role",
+    });
+  });
+
+  test("asks an anonymous caller to sign in", () => {
+    const { called, sent } = run("user", { role: "anonymous", user: null });
+    assert.equal(called, false);
+    assert.equal(sent.status, 401);
+  });
+
+  test("reports why a credential was rejected", () => {
+    const error = new AuthError("Token has expired, sign in again");
+    const { sent } = run("user", { role: "anonymous", user: null, error });
+    assert.equal(sent.status, 401);
+    assert.deepEqual(sent.body, { error: "Unauthorized", message: error.message });
+  });
+});
+
+describe("authenticateUser", () => {
+  beforeEach(async () => {
+    resetStore();
+    store.users.push({ ...account("user"), passwordHash: await hashPassword("correct horse") });
+  });
+
+  test("returns the account for the right password", async () => {
+    const user = await authenticateUser("User@Example.com ", "correct horse");
+    assert.equal(user?.id, "user-id");
+    assert.equal("passwordHash" in (user ?? {}), false);
+  });
+
+  test("returns null for a wrong password", async () => {
+    assert.equal(await authenticateUser("user@example.com", "wrong horse"), null);
+  });
+
+  test("returns null for an unknown email", async () => {
+    assert.equal(await authenticateUser("nobody@example.com", "correct horse"), null);
+  });
+
+  test("runs the full scrypt check against the dummy hash, which nothing matches", async () => {
+    // Same shape as DUMMY_PASSWORD_HASH: a 16-byte salt and a 64-byte key
+    const dummy = `scrypt$${"00".repeat(16)}$${"00".repeat(64)}`;
+    assert.equal(await verifyPassword("correct horse", dummy), false);
+    assert.equal(await verifyPassword("", dummy), false);
+  });
+
+  test("rejects a stored hash in another format without throwing", async () => {
+    assert.equal(await verifyPassword("correct horse", "bcrypt$abc"), false);
+  });
+});
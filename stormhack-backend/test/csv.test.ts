@@ -0,0 +1,56 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { CsvParseError, parseCsv, toCsv } from "../src/lib/csv";
+
+describe("parseCsv", () => {
+  test("reads quoted fields with commas, doubled quotes and newlines", () => {
+    const { header, records } = parseCsv(
+      'name,note\nSpinach,"iron, calcium"\nMilk,"says ""hi"""\nTofu,"two\nlines"\n'
+    );
+    assert.deepEqual(header, ["name", "note"]);
+    assert.deepEqual(
+      records.map((r) => r.values.note),
+      ["iron, calcium", 'says "hi"', "two\nlines"]
+    );
+  });
+
+  test("numbers each record by the line it starts on", () => {
+    const { records } = parseCsv('name,note\r\n"a","one\r\ntwo\r\nthree"\r\n\r\nb,x\r\n');
+    assert.deepEqual(
+      records.map(({ line, values }) => [line, values.name]),
+      [
+        [2, "a"],
+        [6, "b"],
+      ]
+    );
+  });
+
+  test("skips a byte order mark, trims values and drops blank header cells", () => {
+    const { header, records } = parseCsv("\uFEFF name , category ,\n Milk , dairy ,extra");
+    assert.deepEqual(header, ["name", "category"]);
+    assert.deepEqual(records[0]?.values, { name: "Milk", category: "dairy" });
+  });
+
+  test("fills missing trailing fields with empty values", () => {
+    const { records } = parseCsv("name,category\nMilk");
+    assert.deepEqual(records[0]?.values, { name: "Milk", category: "" });
+  });
+
+  test("reports an unterminated quote at the line its record starts", () => {
+    assert.throws(
+      () => parseCsv('name,note\nMilk,dairy\nTofu,"never\nclosed\n'),
+      (error) => error instanceof CsvParseError && error.line === 3
+    );
+  });
+
+  test("reads back what toCsv writes", () => {
+    const text = toCsv(["name", "note"], [["Orange, blood", 'a "b"\nc'], ["Milk", null]]);
+    assert.deepEqual(
+      parseCsv(text).records.map((r) => r.values),
+      [
+        { name: "Orange, blood", note: 'a "b"\nc' },
+        { name: "Milk", note: "" },
+      ]
+    );
+  });
+});
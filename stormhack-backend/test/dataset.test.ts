@@ -0,0 +1,172 @@
+import { before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import path from "node:path";
+import { Dataset, DatasetIssue, loadDataset, validationReport } from "../src/lib/dataset";
+
+// test/fixtures/dataset has one of each kind of problem next to rows that load
+const FIXTURES = path.join(__dirname, "fixtures/dataset");
+
+describe("loadDataset", () => {
+  let dataset: Dataset;
+  let issues: DatasetIssue[];
+
+  before(async () => {
+    ({ dataset, issues } = await loadDataset(FIXTURES));
+  });
+
+  const issuesIn = (file: string) =>
+    issues.filter((issue) => issue.file === file).map(({ file: _file, ...issue }) => issue);
+
+  test("reports a duplicate name on its own line", () => {
+    assert.deepEqual(issuesIn("ingredient.csv"), [
+      {
+        line: 7,
+        level: "error",
+        message: 'duplicate ingredient "milk" (first defined on line 3)',
+      },
+    ]);
+  });
+
+  test("rejects an alias that is already an ingredient name", () => {
+    assert.deepEqual(issuesIn("ingredientAlias.csv"), [
+      { line: 3, level: "error", message: 'alias "tofu" is already an ingredient name' },
+    ]);
+  });
+
+  test("reports bad values with their column, after a multi-line row", () => {
+    assert.deepEqual(issuesIn("ingredientInteraction.csv"), [
+      {
+        line: 4,
+        column: "severity",
+        level: "error",
+        message: 'severity must be a whole number from 1 to 5, got "9"',
+      },
+      { line: 5, level: "error", message: 'unknown ingredient "Kale"' },
+      {
+        line: 6,
+        level: "warning",
+        message: '"milk" + "spinach" repeats the pair on line 2; merged into one row',
+      },
+    ]);
+    assert.deepEqual(issuesIn("disease.csv"), [
+      {
+        line: 3,
+        column: "type",
+        level: "error",
+        message:
+          'type must be one of chronic, acute, temporary, got "temprary" (did you mean "temporary"?)',
+      },
+    ]);
+  });
+
+  test("reports a source key that matches no row", () => {
+    assert.deepEqual(issuesIn("source.csv"), [
+      {
+        line: 4,
+        level: "error",
+        message: 'no row in ingredientInteraction.csv matches interactionId "Spinach,Tofu"',
+      },
+    ]);
+  });
+
+  test("keeps the rows that passed, with quoted values intact", () => {
+    assert.deepEqual(
+      dataset.ingredients.map((i) => i.name),
+      ["spinach", "milk", "orange, blood", "tofu"]
+    );
+    assert.equal(dataset.ingredients[3]?.category, "soy\nproduct");
+    assert.deepEqual(dataset.diseases, [
+      { name: "anemia", description: 'Low iron, "tired" blood', type: "chronic" },
+    ]);
+    assert.deepEqual(dataset.benefits[0]?.ingredients, ["spinach", "orange, blood"]);
+  });
+
+  test("merges a reversed pair and resolves names through aliases", () => {
+    assert.equal(dataset.interactions.length, 1);
+    assert.equal(dataset.interactions[0]?.severity, 4);
+    assert.match(dataset.interactions[0]?.reason ?? "", /Oxalates bind calcium,\nso less/);
+    assert.deepEqual(
+      dataset.diseaseRelations.map((r) => [r.ingredient, r.type]),
+      [
+        ["spinach", "BENEFICIAL"],
+        ["milk", "AVOID"],
+      ]
+    );
+  });
+
+  test("attaches a source to every row its keys name", () => {
+    assert.deepEqual(dataset.interactions[0]?.sources.map((s) => s.url), [
+      "https://example.org/iron",
+    ]);
+    assert.deepEqual(dataset.diseaseRelations[0]?.sources.map((s) => s.label), ["NIH Iron"]);
+  });
+
+  test("reports a missing file at line 0", async () => {
+    const { issues } = await loadDataset(path.join(FIXTURES, "missing"));
+    assert.deepEqual(
+      issues.find((issue) => issue.file === "ingredient.csv"),
+      { file: "ingredient.csv", line: 0, level: "error", message: "file not found" }
+    );
+  });
+});
+
+describe("validationReport", () => {
+  test("counts issues overall and per file next to the loaded rows", async () => {
+    const { dataset, issues } = await loadDataset(FIXTURES);
+    const report = JSON.parse(JSON.stringify(validationReport(FIXTURES, dataset, issues)));
+
+    assert.deepEqual(Object.keys(report), [
+      "valid",
+      "datasetDir",
+      "summary",
+      "files",
+      "rows",
+      "issues",
+    ]);
+    assert.equal(report.valid, false);
+    assert.equal(report.datasetDir, FIXTURES);
+    assert.deepEqual(report.summary, { errors: 6, warnings: 1 });
+    assert.deepEqual(report.files, {
+      "ingredient.csv": { errors: 1, warnings: 0 },
+      "ingredientAlias.csv": { errors: 1, warnings: 0 },
+      "disease.csv": { errors: 1, warnings: 0 },
+      "diseaseIngredient.csv": { errors: 0, warnings: 0 },
+      "ingredientBenefit.csv": { errors: 0, warnings: 0 },
+      "ingredientInteraction.csv": { errors: 2, warnings: 1 },
+      "source.csv": { errors: 1, warnings: 0 },
+    });
+    assert.deepEqual(report.rows, {
+      ingredients: 4,
+      aliases: 1,
+      diseases: 1,
+      interactions: 1,
+      benefits: 1,
+      diseaseRelations: 2,
+    });
+    assert.deepEqual(report.issues[0], {
+      file: "ingredient.csv",
+      line: 7,
+      level: "error",
+      message: 'duplicate ingredient "milk" (first defined on line 3)',
+    });
+  });
+
+  test("is valid when there are only warnings", () => {
+    const warning: DatasetIssue = {
+      file: "source.csv",
+      line: 2,
+      level: "warning",
+      message: "duplicate source",
+    };
+    const empty: Dataset = {
+      ingredients: [],
+      diseases: [],
+      interactions: [],
+      benefits: [],
+      diseaseRelations: [],
+    };
+    const report = validationReport("dir", empty, [warning]);
+    assert.equal(report.valid, true);
+    assert.deepEqual(report.summary, { errors: 0, warnings: 1 });
+  });
+});
@@ -0,0 +1,156 @@
+import { PrismaClient } from "@prisma/client";
+
+// In-memory stand-in for the parts of the Prisma client that the tests use.
+// src/lib/prisma.ts reuses a client already on `global`, so importing this
+// module before any src/ module makes them all use it; no database is needed.
+
+type Row = Record<string, unknown> & { id: string };
+type Args = {
+  where?: Record<string, unknown>;
+  data?: Record<string, unknown> | Record<string, unknown>[];
+  create?: Record<string, unknown>;
+  update?: Record<string, unknown>;
+  include?: { sources?: unknown };
+};
+
+export const store = {
+  interactions: [] as Row[],
+  citations: [] as { interactionId: string; sourceId: string; snippet: string | null }[],
+  auditEntries: [] as Row[],
+  benefits: [] as Row[],
+  users: [] as Row[],
+  apiKeys: [] as Row[],
+  apiKeyDailyCounts: [] as Row[],
+  apiKeyUsage: [] as Row[],
+};
+
+export const resetStore = () => {
+  store.interactions = [];
+  store.citations = [];
+  store.auditEntries = [];
+  store.benefits = [];
+  store.users = [];
+  store.apiKeys = [];
+  store.apiKeyDailyCounts = [];
+  store.apiKeyUsage = [];
+};
+
+// { id }, { id: { in: [...] } }, { not }, { gte }, a compound unique key
+// such as { apiKeyId_day: { apiKeyId, day } } or plain field equality
+const matches = (row: Record<string, unknown>, where: Record<string, unknown> = {}): boolean =>
+  Object.entries(where).every(([field, condition]) => {
+    if (condition && typeof condition === "object" && "in" in condition) {
+      return (condition.in as unknown[]).includes(row[field]);
+    }
+    if (condition && typeof condition === "object" && "not" in condition) {
+      return row[field] !== condition.not;
+    }
+    if (condition && typeof condition === "object" && "gte" in condition) {
+      return (row[field] as string | number) >= (condition.gte as string | number);
+    }
+    if (condition && typeof condition === "object" && !(condition instanceof Date)) {
+      return matches(row, condition as Record<string, unknown>);
+    }
+    return row[field] === condition;
+  });
+
+// Plain values, or { increment } / { decrement } on a number
+const write = (row: Row, data: Record<string, unknown> = {}) => {
+  Object.entries(data).forEach(([field, value]) => {
+    if (value && typeof value === "object" && "increment" in value) {
+      row[field] = (row[field] as number) + (value.increment as number);
+    } else if (value && typeof value === "object" && "decrement" in value) {
+      row[field] = (row[field] as number) - (value.decrement as number);
+    } else {
+      row[field] = value;
+    }
+  });
+  row.updatedAt = new Date();
+  return { ...row };
+};
+
+const withSources = (row: Row, include?: Args["include"]) =>
+  include?.sources
+    ? {
+        ...row,
+        sources: store.citations
+          .filter((c) => c.interactionId === row.id)
+          .map(({ sourceId, snippet }) => ({ sourceId, snippet }))
+          .sort((a, b) => a.sourceId.localeCompare(b.sourceId)),
+      }
+    : { ...row };
+
+const table = (rows: () => Row[]) => ({
+  findMany: async ({ where, include }: Args = {}) =>
+    rows()
+      .filter((row) => matches(row, where))
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map((row) => withSources(row, include)),
+  findUnique: async ({ where, include }: Args) => {
+    const row = rows().find((r) => matches(r, where));
+    return row ? withSources(row, include) : null;
+  },
+  findUniqueOrThrow: async ({ where }: Args) => {
+    const row = rows().find((r) => matches(r, where));
+    if (!row) throw new Error("No row found");
+    return { ...row };
+  },
+  findFirst: async ({ where }: Args) => {
+    const row = rows().find((r) => matches(r, where));
+    return row ? { ...row } : null;
+  },
+  update: async ({ where, data }: Args) =>
+    write(rows().find((r) => matches(r, where))!, data as Record<string, unknown>),
+  upsert: async ({ where, create, update }: Args) => {
+    const row = rows().find((r) => matches(r, where));
+    if (row) return write(row, update);
+    const created = { id: `generated-${rows().length}`, ...create } as Row;
+    rows().push(created);
+    return write(created);
+  },
+  createMany: async ({ data }: Args) => {
+    const list = (Array.isArray(data) ? data : [data]) as Record<string, unknown>[];
+    list.forEach((row) => rows().push({ id: `generated-${rows().length}`, ...row }));
+    return { count: list.length };
+  },
+  delete: async ({ where }: Args) => {
+    const row = rows().find((r) => matches(r, where))!;
+    rows().splice(rows().indexOf(row), 1);
+    store.citations = store.citations.filter((c) => c.interactionId !== row.id);
+    return { ...row };
+  },
+});
+
+const citationTable = {
+  deleteMany: async ({ where }: Args) => {
+    const before = store.citations.length;
+    store.citations = store.citations.filter((c) => !matches(c, where));
+    return { count: before - store.citations.length };
+  },
+  createMany: async ({ data }: Args) => {
+    const list = data as typeof store.citations;
+    store.citations.push(...list.map(({ interactionId, sourceId, snippet }) => ({
+      interactionId,
+      sourceId,
+      snippet,
+    })));
+    return { count: list.length };
+  },
+};
+
+const client = {
+  ingredientInteraction: table(() => store.interactions),
+  ingredientBenefit: table(() => store.benefits),
+  interactionSource: citationTable,
+  auditEntry: table(() => store.auditEntries),
+  user: table(() => store.users),
+  apiKey: table(() => store.apiKeys),
+  apiKeyDailyCount: table(() => store.apiKeyDailyCounts),
+  apiKeyUsage: table(() => store.apiKeyUsage),
+  $executeRaw: async () => 0,
+  // An interactive transaction, or a batch of queries already under way
+  $transaction: async <T>(work: ((tx: unknown) => Promise<T>) | Promise<T>[]) =>
+    Array.isArray(work) ? Promise.all(work) : work(client),
+};
+
+(global as unknown as { prisma: PrismaClient }).prisma = client as unknown as PrismaClient;
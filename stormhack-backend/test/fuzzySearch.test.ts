@@ -0,0 +1,51 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { editDistance, fuzzyMatch, rankFuzzy } from "../src/lib/fuzzySearch";
+
+describe("editDistance", () => {
+  test("counts a swap of adjacent letters as one edit", () => {
+    assert.equal(editDistance("rcie", "rice"), 1);
+    assert.equal(editDistance("teh", "the"), 1);
+  });
+
+  test("counts insertions, deletions and substitutions", () => {
+    assert.equal(editDistance("", "abc"), 3);
+    assert.equal(editDistance("kitten", "sitting"), 3);
+    assert.equal(editDistance("rice", "rice"), 0);
+  });
+});
+
+describe("fuzzyMatch", () => {
+  test("allows one typo in three- and four-letter queries", () => {
+    assert.notEqual(fuzzyMatch("egs", "eggs"), null);
+    assert.notEqual(fuzzyMatch("rcie", "rice"), null);
+    assert.notEqual(fuzzyMatch("ruce", "rice"), null);
+  });
+
+  test("needs an exact match below three letters", () => {
+    assert.equal(fuzzyMatch("ix", "rice"), null);
+    assert.notEqual(fuzzyMatch("ri", "rice"), null);
+  });
+
+  test("rejects more typos than the query length allows", () => {
+    assert.equal(fuzzyMatch("rcei", "rice"), null);
+  });
+});
+
+describe("rankFuzzy", () => {
+  test("ranks the closest match first", () => {
+    const ranked = rankFuzzy(
+      "rice",
+      [
+        { item: 1, name: "brown rice", popularity: 1 },
+        { item: 2, name: "rice", popularity: 0 },
+        { item: 3, name: "rice noodles", popularity: 9 },
+      ],
+      10
+    );
+    assert.deepEqual(
+      ranked.map((entry) => entry.name),
+      ["rice", "rice noodles", "brown rice"]
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import "./fakePrisma";
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  BundleError,
+  importBundle,
+  verifyBundle,
+} from "../src/lib/knowledgeBundle";
+
+type Rows = Record<string, Record<string, unknown>[]>;
+
+const emptyData = (): Rows => ({
+  ingredients: [],
+  aliases: [],
+  diseases: [],
+  interactions: [],
+  benefits: [],
+  diseaseRelations: [],
+  sources: [],
+  interactionSources: [],
+  benefitSources: [],
+  diseaseRelationSources: [],
+});
+
+// A bundle as db:export writes it, checksum and counts included
+const bundle = (data: Rows, version: number = BUNDLE_VERSION) => ({
+  format: BUNDLE_FORMAT,
+  version,
+  exportedAt: "2026-01-01T00:00:00.000Z",
+  counts: Object.fromEntries(Object.entries(data).map(([key, rows]) => [key, rows.length])),
+  checksum: `sha256:${createHash("sha256").update(JSON.stringify(data)).digest("hex")}`,
+  data,
+});
+
+const interaction = { id: "i1", ingredientAId: "a", ingredientBId: "b", reason: "r" };
+
+describe("verifyBundle", () => {
+  test("accepts a complete bundle of the current version", () => {
+    const data = { ...emptyData(), interactions: [{ ...interaction, status: "draft" }] };
+    assert.deepEqual(verifyBundle(bundle(data)).data, data);
+  });
+
+  test("rejects edited data", () => {
+    const edited = bundle(emptyData());
+    edited.data.ingredients = [{ id: "x", name: "added by hand" }];
+    assert.throws(() => verifyBundle(edited), /Checksum mismatch/);
+  });
+
+  test("rejects a bundle missing a section", () => {
+    const { sources: _sources, ...data } = emptyData();
+    assert.throws(() => verifyBundle(bundle(data)), /no sources section/);
+  });
+
+  test("rejects counts that don't match the data", () => {
+    const wrong = bundle({ ...emptyData(), interactions: [interaction] });
+    wrong.counts.interactions = 2;
+    assert.throws(() => verifyBundle(wrong), /Row counts don't match the data for interactions/);
+  });
+
+  test("upgrades a version 2 bundle, approving its relations and sources", () => {
+    const upgraded = verifyBundle(bundle({ ...emptyData(), interactions: [interaction] }, 2));
+    assert.equal(upgraded.version, BUNDLE_VERSION);
+    assert.equal(upgraded.data.interactions[0]?.status, "approved");
+    assert.equal(upgraded.data.interactions[0]?.reviewedBy, null);
+    // The upgraded bundle verifies on its own, as importBundle checks it again
+    assert.deepEqual(verifyBundle(upgraded), upgraded);
+  });
+
+  test("rejects versions it can't upgrade from and newer ones", () => {
+    const { interactionSources: _a, benefitSources: _b, diseaseRelationSources: _c, ...v1 } =
+      emptyData();
+    assert.throws(() => verifyBundle(bundle(v1, 1)), /version 1 can't be upgraded/);
+    assert.throws(() => verifyBundle(bundle(emptyData(), BUNDLE_VERSION + 1)), BundleError);
+  });
+});
+
+describe("importBundle", () => {
+  const claim = { status: "approved", contextDependent: false };
+  const names = {
+    ingredients: [
+      { id: "a", name: "Milk" },
+      { id: "b", name: "Iron" },
+    ],
+    diseases: [{ id: "d", name: "Anemia" }],
+  };
+
+  test("refuses a bundle where a pair is both an interaction and a benefit", async () => {
+    const data = {
+      ...emptyData(),
+      ...names,
+      interactions: [{ ...interaction, ...claim }],
+      benefits: [{ ...interaction, id: "b1", ...claim }],
+    };
+    await assert.rejects(
+      importBundle(verifyBundle(bundle(data))),
+      /unresolved contradictions \("Milk" \+ "Iron"\)/
+    );
+  });
+
+  test("refuses a bundle where a disease both avoids and benefits from an ingredient", async () => {
+    const relation = { diseaseId: "d", ingredientId: "b", reason: "r", ...claim };
+    const data = {
+      ...emptyData(),
+      ...names,
+      diseaseRelations: [
+        { ...relation, id: "r1", type: "AVOID" },
+        { ...relation, id: "r2", type: "BENEFICIAL" },
+      ],
+    };
+    await assert.rejects(
+      importBundle(verifyBundle(bundle(data))),
+      /unresolved contradictions \("Iron" for "Anemia"\)/
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import "./fakePrisma";
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { checkLink, fetchClient } from "../src/lib/linkChecker";
+
+const client = fetchClient(2000);
+
+const routes: Record<string, (req: http.IncomingMessage, res: http.ServerResponse) => void> = {
+  "/ok": (_req, res) => res.writeHead(200).end("ok"),
+  "/moved": (_req, res) => res.writeHead(301, { Location: "/ok" }).end(),
+  "/loop-a": (_req, res) => res.writeHead(302, { Location: "/loop-b" }).end(),
+  "/loop-b": (_req, res) => res.writeHead(302, { Location: "/loop-a" }).end(),
+  "/no-head": (req, res) => res.writeHead(req.method === "HEAD" ? 405 : 200).end(),
+};
+
+const listen = async (server: http.Server) => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+describe("checkLink", () => {
+  const server = http.createServer((req, res) =>
+    (routes[req.url ?? ""] ?? ((_req, res) => res.writeHead(404).end()))(req, res)
+  );
+  let base = "";
+
+  before(async () => {
+    base = await listen(server);
+  });
+  after(() => {
+    server.close();
+  });
+
+  test("records each redirect and where it ended", async () => {
+    const result = await checkLink(`${base}/moved`, client);
+    assert.equal(result.status, 200);
+    assert.deepEqual(result.redirects, [`${base}/ok`]);
+    assert.equal(result.finalUrl, `${base}/ok`);
+    assert.equal(result.broken, false);
+  });
+
+  test("stops at a redirect loop", async () => {
+    const result = await checkLink(`${base}/loop-a`, client);
+    assert.equal(result.status, null);
+    assert.match(result.error ?? "", /redirect loop at .*\/loop-a$/);
+    assert.equal(result.broken, true);
+  });
+
+  test("marks a 404 as broken", async () => {
+    const result = await checkLink(`${base}/missing`, client);
+    assert.equal(result.status, 404);
+    assert.equal(result.error, null);
+    assert.equal(result.broken, true);
+  });
+
+  test("retries with GET when HEAD is rejected", async () => {
+    const result = await checkLink(`${base}/no-head`, client);
+    assert.equal(result.status, 200);
+    assert.equal(result.broken, false);
+  });
+
+  test("reports a network error", async () => {
+    // Nothing listens on a port right after its server closes
+    const closed = http.createServer();
+    const url = `${await listen(closed)}/ok`;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const result = await checkLink(url, client);
+    assert.equal(result.status, null);
+    assert.match(result.error ?? "", /^fetch failed: /);
+    assert.equal(result.broken, true);
+  });
+});
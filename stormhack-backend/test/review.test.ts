@@ -0,0 +1,103 @@
+import { resetStore, store } from "./fakePrisma";
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  canTransition,
+  reviewAfterEdit,
+  reviewFields,
+  ReviewError,
+  setReviewStatus,
+} from "../src/lib/review";
+
+describe("canTransition", () => {
+  test("approving always goes through review", () => {
+    assert.equal(canTransition("draft", "approved"), false);
+    assert.equal(canTransition("draft", "in-review"), true);
+    assert.equal(canTransition("in-review", "approved"), true);
+  });
+
+  test("a retired row only comes back as a draft", () => {
+    assert.equal(canTransition("retired", "draft"), true);
+    assert.equal(canTransition("retired", "in-review"), false);
+    assert.equal(canTransition("retired", "approved"), false);
+  });
+});
+
+describe("reviewFields", () => {
+  const at = new Date("2026-01-02T03:04:05Z");
+
+  test("sending to review records the submitter", () => {
+    assert.deepEqual(reviewFields("in-review", "alice", at), {
+      status: "in-review",
+      submittedBy: "alice",
+      submittedAt: at,
+    });
+  });
+
+  test("approving or retiring records the reviewer", () => {
+    assert.deepEqual(reviewFields("approved", "bob", at), {
+      status: "approved",
+      reviewedBy: "bob",
+      reviewedAt: at,
+    });
+    assert.deepEqual(reviewFields("retired", "bob", at), {
+      status: "retired",
+      reviewedBy: "bob",
+      reviewedAt: at,
+    });
+  });
+});
+
+describe("reviewAfterEdit", () => {
+  test("an edited approved row goes back to review without its reviewer", () => {
+    const review = reviewAfterEdit("approved", true, "alice");
+    assert.equal(review?.status, "in-review");
+    assert.equal(review?.submittedBy, "alice");
+    assert.equal(review?.reviewedBy, null);
+    assert.equal(review?.reviewedAt, null);
+  });
+
+  test("an edited row waiting for review is resubmitted", () => {
+    assert.equal(reviewAfterEdit("in-review", true, "alice")?.submittedBy, "alice");
+  });
+
+  test("drafts, retired rows and unchanged rows keep their status", () => {
+    assert.equal(reviewAfterEdit("draft", true, "alice"), null);
+    assert.equal(reviewAfterEdit("retired", true, "alice"), null);
+    assert.equal(reviewAfterEdit("approved", false, "alice"), null);
+  });
+});
+
+describe("setReviewStatus", () => {
+  beforeEach(() => {
+    resetStore();
+    store.interactions.push({
+      id: "i1",
+      ingredientAId: "a",
+      ingredientBId: "b",
+      reason: "Blocks absorption",
+      status: "draft",
+      submittedBy: null,
+      submittedAt: null,
+      reviewedBy: null,
+      reviewedAt: null,
+    });
+  });
+
+  test("rejects a move the workflow doesn't allow", async () => {
+    await assert.rejects(setReviewStatus("interaction", "i1", "approved", "bob"), ReviewError);
+    assert.equal(store.interactions[0]?.status, "draft");
+  });
+
+  test("moves the row and records the change", async () => {
+    const updated = await setReviewStatus("interaction", "i1", "in-review", "alice");
+    assert.equal(updated?.status, "in-review");
+    assert.equal(updated?.submittedBy, "alice");
+    assert.equal(store.auditEntries.length, 1);
+    assert.equal(store.auditEntries[0]?.action, "update");
+  });
+
+  test("returns null for an unknown row", async () => {
+    assert.equal(await setReviewStatus("interaction", "nope", "in-review", "alice"), null);
+  });
+});